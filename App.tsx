@@ -1,27 +1,66 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import GameCanvas from './components/GameCanvas';
-import { GameState, GameStats } from './types';
+import RunHistory from './components/RunHistory';
+import { GameState, GameStats, PlayerStats, RunConfig, Replay, RunSnapshot, RunRecord, PerkId, DifficultyId, MutatorId, GameMode, RunOutcome } from './types';
+import { createRunConfig } from './game/simulation';
+import { MAX_PLAYERS, PLAYER_COLORS } from './game/constants';
+import { BUNDLED_MAPS, DEFAULT_MAP_ID, getMap } from './game/maps';
+import { dateKey } from './game/random';
+import { PERKS, summarizePerks } from './game/perks';
+import { GAME_MODES, GAME_MODE_IDS, DEFAULT_GAME_MODE } from './game/modes';
+import { DIFFICULTIES, DIFFICULTY_IDS, DEFAULT_DIFFICULTY, MUTATORS, MUTATOR_IDS, getRunModifiers } from './game/difficulty';
 import { generateMissionReport, generateBossTaunt } from './services/geminiService';
+import { downloadReplay, readReplayFile } from './services/replayFile';
+import { loadSavedRun, clearSavedRun } from './services/runSave';
+import { loadRunHistory, recordRun, updateRunInitials, loadInitials, saveInitials, sanitizeInitials } from './services/runHistory';
 import { 
   Skull, Play, RotateCcw, Trophy, Radio, 
   Settings, HelpCircle, Info, Heart, Users, 
-  Pause, X, Music, Volume2, Globe 
+  Pause, X, Music, Volume2, Globe, CalendarDays,
+  Film, Download, Upload, Map as MapIcon, History, LogOut, ListOrdered, Star, ArrowUpCircle,
+  Gauge, FlaskConical, Swords
 } from 'lucide-react';
 
-type ModalType = 'settings' | 'howto' | 'about' | 'support' | 'collabs' | null;
+type ModalType = 'settings' | 'howto' | 'about' | 'support' | 'collabs' | 'history' | 'mutators' | null;
 type Language = 'es' | 'en';
 
 const translations = {
   es: {
     start: "INICIAR JUEGO",
+    continueRun: "CONTINUAR",
+    daily: "RETO DIARIO",
+    dailyRun: "Reto Diario",
+    map: "Mapa",
+    mode: "Modo",
+    players: "Jugadores",
+    coopHint: "El J2 juega con mando; con dos mandos conectados, el J1 también.",
+    playerTag: "J",
+    damageTaken: "Daño recibido",
+    downs: "Caídas",
+    revives: "Reanimaciones",
+    difficulty: "Dificultad",
+    mutators: "Mutadores",
+    mutatorsHint: "Cambia las reglas de la partida. Cuanto más difícil, más puntos.",
+    scoreMultiplier: "Multiplicador de puntos",
+    modifiers: "Modificadores",
     settings: "Configuración",
     howto: "Cómo Jugar",
     about: "Acerca de",
     support: "Apoyo",
     collabs: "Colaboraciones",
+    history: "Récords",
+    initials: "Iniciales",
+    personalBest: "¡NUEVO RÉCORD PERSONAL!",
     paused: "PAUSA",
     resume: "REANUDAR",
+    saveAndQuit: "Guardar y salir",
+    waveCleared: "RONDA SUPERADA",
+    choosePerk: "Elige una mejora",
+    perks: "Mejoras",
+    noPerks: "Ninguna",
     gameOver: "MISIÓN FALLIDA",
+    timeUp: "¡TIEMPO!",
+    victory: "MISIÓN CUMPLIDA",
     score: "Puntuación",
     waves: "Rondas",
     kills: "Bajas",
@@ -35,8 +74,12 @@ const translations = {
     howtoContent: [
       "Usa WASD para moverte y el Mouse para apuntar.",
       "En móvil: Joystick izquierdo (Mover), Botón rojo (Disparar).",
-      "MUNICIÓN: Las balas se acaban. Mata zombies para encontrar cajas de munición.",
+      "BOTÍN: Los zombies sueltan munición, botiquines, blindaje y potenciadores temporales. ¡Recógelos antes de que parpadeen y desaparezcan!",
       "RECARGA: Pulsa 'R' o espera a que se vacíe el cargador.",
+      "ARMAS: Cambia con 1-4 o la rueda del ratón. Recoge cajas de armas para ampliar tu arsenal.",
+      "ARROJABLES: Lanza granadas o molotovs con G. Puedes llevar hasta 3 de un mismo tipo.",
+      "MEJORAS: Al terminar cada ronda eliges una de tres mejoras permanentes.",
+      "COOPERATIVO: Con mando, stick izquierdo para moverte, derecho para apuntar y RT para disparar. Quédate junto a un compañero caído para reanimarlo.",
       "SOBREVIVE: Hordas masivas y Jefes pondrán a prueba tu habilidad."
     ],
     aboutContent: "Creado por Luis Cupul 04",
@@ -48,18 +91,48 @@ const translations = {
     ammo: "MUNICIÓN",
     reloading: "RECARGANDO...",
     outOfAmmo: "¡SIN MUNICIÓN!",
-    lowAmmo: "MUNICIÓN BAJA"
+    lowAmmo: "MUNICIÓN BAJA",
+    watchReplay: "VER REPETICIÓN",
+    saveReplay: "GUARDAR",
+    loadReplay: "Cargar Repetición",
+    replayError: "No se pudo cargar la repetición"
   },
   en: {
     start: "START GAME",
+    continueRun: "CONTINUE",
+    daily: "DAILY CHALLENGE",
+    dailyRun: "Daily Challenge",
+    map: "Map",
+    mode: "Mode",
+    players: "Players",
+    coopHint: "P2 plays on a gamepad; with two gamepads connected, so does P1.",
+    playerTag: "P",
+    damageTaken: "Damage taken",
+    downs: "Downs",
+    revives: "Revives",
+    difficulty: "Difficulty",
+    mutators: "Mutators",
+    mutatorsHint: "Bend the rules of the run. The harder it gets, the more it scores.",
+    scoreMultiplier: "Score multiplier",
+    modifiers: "Modifiers",
     settings: "Settings",
     howto: "How to Play",
     about: "About",
     support: "Support",
     collabs: "Collabs",
+    history: "Records",
+    initials: "Initials",
+    personalBest: "NEW PERSONAL BEST!",
     paused: "PAUSED",
     resume: "RESUME",
+    saveAndQuit: "Save & Quit",
+    waveCleared: "WAVE CLEARED",
+    choosePerk: "Choose an upgrade",
+    perks: "Perks",
+    noPerks: "None",
     gameOver: "MISSION FAILED",
+    timeUp: "TIME'S UP",
+    victory: "MISSION COMPLETE",
     score: "Score",
     waves: "Waves",
     kills: "Kills",
@@ -73,8 +146,12 @@ const translations = {
     howtoContent: [
       "Use WASD to move and Mouse to aim/shoot.",
       "Mobile: Left Joystick (Move), Red Button (Auto-fire).",
-      "AMMO: Bullets are limited. Kill zombies to find ammo crates.",
+      "LOOT: Zombies drop ammo, medkits, armor and timed power-ups. Grab them before they blink out!",
       "RELOAD: Press 'R' or empty the clip to reload.",
+      "WEAPONS: Switch with 1-4 or the mouse wheel. Grab weapon crates to expand your arsenal.",
+      "THROWABLES: Throw grenades or molotovs with G. Carry up to 3 of one kind.",
+      "PERKS: After each wave, pick one of three permanent upgrades.",
+      "CO-OP: On a gamepad, left stick moves, right stick aims and RT fires. Stand by a downed teammate to revive them.",
       "SURVIVE: Massive Hordes and Bosses will test your skills."
     ],
     aboutContent: "Created by Luis Cupul 04",
@@ -86,17 +163,47 @@ const translations = {
     ammo: "AMMO",
     reloading: "RELOADING...",
     outOfAmmo: "NO AMMO!",
-    lowAmmo: "LOW AMMO"
+    lowAmmo: "LOW AMMO",
+    watchReplay: "WATCH REPLAY",
+    saveReplay: "SAVE",
+    loadReplay: "Load Replay",
+    replayError: "Could not load replay"
   }
 };
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [lastStats, setLastStats] = useState<GameStats | null>(null);
+  const [lastOutcome, setLastOutcome] = useState<RunOutcome>('died');
+  const [lastPerks, setLastPerks] = useState<PerkId[][]>([]); // One list per player
+  const [perkOffer, setPerkOffer] = useState<{ options: PerkId[]; choose: (index: number) => void } | null>(null);
   const [geminiReport, setGeminiReport] = useState<string>("");
   const [loadingReport, setLoadingReport] = useState(false);
   const [waveMessage, setWaveMessage] = useState<string>("");
   const [lang, setLang] = useState<Language>('es');
+  const [mapId, setMapId] = useState<string>(DEFAULT_MAP_ID);
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_GAME_MODE);
+  const [difficulty, setDifficulty] = useState<DifficultyId>(DEFAULT_DIFFICULTY);
+  const [mutators, setMutators] = useState<MutatorId[]>([]);
+  const [players, setPlayers] = useState(1);
+  const [runConfig, setRunConfig] = useState<RunConfig>(() => createRunConfig());
+
+  // Saved (unfinished) run
+  const [savedRun, setSavedRun] = useState<RunSnapshot | null>(null);
+  const [resumeRun, setResumeRun] = useState<RunSnapshot | null>(null);
+
+  // Leaderboard
+  const [history, setHistory] = useState<RunRecord[]>(() => loadRunHistory());
+  const [lastRecord, setLastRecord] = useState<RunRecord | null>(null);
+  const [isPersonalBest, setIsPersonalBest] = useState(false);
+  const [initials, setInitials] = useState<string>(() => loadInitials());
+
+  // Replays
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [replayReturnState, setReplayReturnState] = useState<GameState>(GameState.MENU);
+  const [replayError, setReplayError] = useState<string>("");
+  const replayInputRef = useRef<HTMLInputElement>(null);
   
   // Menu Modal State
   const [activeModal, setActiveModal] = useState<ModalType>(null);
@@ -107,7 +214,25 @@ const App: React.FC = () => {
 
   const t = translations[lang];
 
-  const startGame = () => {
+  // The menu offers to continue whatever run was saved last
+  useEffect(() => {
+    if (gameState === GameState.MENU) setSavedRun(loadSavedRun());
+  }, [gameState]);
+
+  const startGame = (daily = false) => {
+    clearSavedRun(); // A new run takes the save slot
+    setResumeRun(null);
+    setPerkOffer(null);
+    setRunConfig(createRunConfig(daily, mapId, gameMode, difficulty, mutators, players));
+    setGameState(GameState.PLAYING);
+    setGeminiReport("");
+    setWaveMessage("");
+  };
+
+  const continueGame = (snapshot: RunSnapshot) => {
+    setResumeRun(snapshot);
+    setPerkOffer(null);
+    setRunConfig(snapshot.state.config);
     setGameState(GameState.PLAYING);
     setGeminiReport("");
     setWaveMessage("");
@@ -121,8 +246,17 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGameOver = async (stats: GameStats) => {
+  const handleGameOver = async (stats: GameStats, replay: Replay, perks: PerkId[][], outcome: RunOutcome) => {
+    clearSavedRun();
+    setResumeRun(null);
+    const result = recordRun(stats, runConfig, initials);
+    setHistory(result.history);
+    setLastRecord(result.record);
+    setIsPersonalBest(result.isPersonalBest);
     setLastStats(stats);
+    setLastOutcome(outcome);
+    setLastPerks(perks);
+    setLastReplay(replay);
     setGameState(GameState.GAME_OVER);
     
     setLoadingReport(true);
@@ -131,15 +265,65 @@ const App: React.FC = () => {
     setLoadingReport(false);
   };
 
-  const handleWaveChange = async (wave: number, isHorde?: boolean) => {
+  // Initials default to the last ones typed and can still be fixed on the Game Over screen
+  const changeInitials = (value: string) => {
+    const next = sanitizeInitials(value);
+    setInitials(next);
+    saveInitials(next);
+    if (lastRecord && next) setHistory(updateRunInitials(lastRecord.id, next));
+  };
+
+  // The run waits in UPGRADE until a perk is picked; the pick reaches the simulation as input
+  const handlePerkOffer = (options: PerkId[], choose: (index: number) => void) => {
+    setPerkOffer({ options, choose });
+    setGameState(GameState.UPGRADE);
+  };
+
+  const pickPerk = (index: number) => {
+    perkOffer?.choose(index);
+    setPerkOffer(null);
+    setGameState(GameState.PLAYING);
+  };
+
+  const toggleMutator = (id: MutatorId) => {
+    setMutators(current => current.includes(id) ? current.filter(m => m !== id) : [...current, id]);
+  };
+
+  const formatMultiplier = (multiplier: number) => `x${Number(multiplier.toFixed(2))}`;
+
+  const watchReplay = (replay: Replay, returnState: GameState) => {
+    setActiveReplay(replay);
+    setReplayReturnState(returnState);
+    setReplayError("");
+    setGameState(GameState.REPLAY);
+  };
+
+  const exitReplay = () => {
+    setActiveReplay(null);
+    setGameState(replayReturnState);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      watchReplay(await readReplayFile(file), GameState.MENU);
+    } catch (error) {
+      console.error("Replay Load Error:", error);
+      setReplayError(t.replayError);
+    }
+  };
+
+  const handleWaveChange = async (wave: number, isHorde?: boolean, isBoss?: boolean) => {
       if (isHorde) {
         setWaveMessage(t.warningHorde);
         setTimeout(() => setWaveMessage(""), 3000);
         return;
       }
 
-      // Special boss warning for tens
-      if (wave % 10 === 0) {
+      if (isBoss) {
         setWaveMessage(t.warningBoss);
         setTimeout(() => setWaveMessage(""), 5000);
       } else {
@@ -253,6 +437,45 @@ const App: React.FC = () => {
           </div>
         );
         break;
+      case 'mutators':
+        title = t.mutators;
+        content = (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-400">{t.mutatorsHint}</p>
+            {MUTATOR_IDS.map(id => {
+              const mutator = MUTATORS[id];
+              const active = mutators.includes(id);
+              return (
+                <button
+                  key={id}
+                  onClick={() => toggleMutator(id)}
+                  className={`w-full flex items-center justify-between gap-3 p-3 rounded-lg border text-left transition-all ${
+                    active
+                      ? 'bg-purple-900/30 border-purple-500 text-white'
+                      : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500'
+                  }`}
+                >
+                  <div>
+                    <p className="font-bold">{mutator.name[lang]}</p>
+                    <p className="text-xs text-slate-400">{mutator.description[lang]}</p>
+                  </div>
+                  <span className="text-xs font-mono text-yellow-400">{formatMultiplier(mutator.modifiers.scoreMultiplier ?? 1)}</span>
+                </button>
+              );
+            })}
+            <div className="flex justify-between items-center pt-2 border-t border-slate-700 text-sm">
+              <span className="text-slate-400">{t.scoreMultiplier}</span>
+              <span className="font-mono font-bold text-yellow-400">
+                {formatMultiplier(getRunModifiers(difficulty, mutators).scoreMultiplier)}
+              </span>
+            </div>
+          </div>
+        );
+        break;
+      case 'history':
+        title = t.history;
+        content = <RunHistory history={history} highlightId={lastRecord?.id} lang={lang} />;
+        break;
       case 'collabs':
         title = t.collabs;
         content = (
@@ -278,7 +501,7 @@ const App: React.FC = () => {
 
     return (
       <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
-        <div className="bg-slate-800 border border-slate-700 w-full max-w-md rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className={`bg-slate-800 border border-slate-700 w-full ${activeModal === 'history' ? 'max-w-3xl' : 'max-w-md'} rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200`}>
           <div className="flex justify-between items-center p-4 border-b border-slate-700 bg-slate-900/50">
             <h2 className="text-xl font-creep text-red-500 tracking-wider">{title}</h2>
             <button onClick={() => setActiveModal(null)} className="text-slate-400 hover:text-white">
@@ -302,7 +525,12 @@ const App: React.FC = () => {
         setGameState={setGameState} 
         onGameOver={handleGameOver}
         onWaveChange={handleWaveChange}
+        onPerkOffer={handlePerkOffer}
         lang={lang}
+        runConfig={runConfig}
+        replay={activeReplay}
+        onExitReplay={exitReplay}
+        resumeRun={resumeRun}
       />
 
       {/* Pause Overlay */}
@@ -317,6 +545,35 @@ const App: React.FC = () => {
             >
               <Play className="w-5 h-5 fill-black" /> {t.resume}
             </button>
+            <button 
+              onClick={() => setGameState(GameState.MENU)}
+              className="mt-3 text-slate-400 hover:text-white text-sm font-bold flex items-center justify-center gap-2 mx-auto transition-colors"
+            >
+              <LogOut className="w-4 h-4" /> {t.saveAndQuit}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Perk Selection (Wave Break) */}
+      {gameState === GameState.UPGRADE && perkOffer && (
+        <div className="absolute inset-0 z-40 bg-black/60 backdrop-blur-[2px] flex items-center justify-center p-4">
+          <div className="max-w-3xl w-full text-center">
+            <h2 className="font-creep text-5xl text-green-500 mb-2 tracking-widest">{t.waveCleared}</h2>
+            <p className="text-slate-400 mb-6 font-mono text-sm uppercase">{t.choosePerk}</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {perkOffer.options.map((id, i) => (
+                <button
+                  key={id}
+                  onClick={() => pickPerk(i)}
+                  className="bg-slate-900/90 border border-slate-600 hover:border-green-500 rounded-xl p-6 flex flex-col items-center gap-3 transition-all hover:scale-105 hover:bg-slate-800"
+                >
+                  <ArrowUpCircle className="w-10 h-10 text-green-500" />
+                  <span className="text-white font-bold text-lg">{PERKS[id].name[lang]}</span>
+                  <span className="text-slate-400 text-sm">{PERKS[id].description[lang]}</span>
+                </button>
+              ))}
+            </div>
           </div>
         </div>
       )}
@@ -371,11 +628,112 @@ const App: React.FC = () => {
                     PROTOCOL: GEMINI // STATUS: ONLINE
                 </p>
 
+                {/* Map Picker */}
+                <div className="mb-4">
+                    <p className="text-xs font-mono text-slate-500 mb-2 flex items-center justify-center gap-1">
+                        <MapIcon className="w-3 h-3" /> {t.map}
+                    </p>
+                    <div className="flex gap-2">
+                        {BUNDLED_MAPS.map(map => (
+                            <button
+                                key={map.id}
+                                onClick={() => setMapId(map.id)}
+                                className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all ${
+                                    map.id === mapId
+                                        ? 'bg-slate-600 border-slate-400 text-white'
+                                        : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500'
+                                }`}
+                            >
+                                {map.name[lang]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Game Mode Picker */}
+                <div className="mb-4">
+                    <p className="text-xs font-mono text-slate-500 mb-2 flex items-center justify-center gap-1">
+                        <Swords className="w-3 h-3" /> {t.mode}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        {GAME_MODE_IDS.map(id => (
+                            <button
+                                key={id}
+                                onClick={() => setGameMode(id)}
+                                className={`flex-1 py-2 px-2 rounded-lg border text-sm font-bold transition-all ${
+                                    id === gameMode
+                                        ? 'bg-slate-600 border-slate-400 text-white'
+                                        : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500'
+                                }`}
+                            >
+                                {GAME_MODES[id].name[lang]}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="mt-2 text-xs text-slate-400">{GAME_MODES[gameMode].description[lang]}</p>
+                </div>
+
+                {/* Local co-op */}
+                <div className="mb-4">
+                    <p className="text-xs font-mono text-slate-500 mb-2 flex items-center justify-center gap-1">
+                        <Users className="w-3 h-3" /> {t.players}
+                    </p>
+                    <div className="flex gap-2">
+                        {Array.from({ length: MAX_PLAYERS }, (_, i) => i + 1).map(count => (
+                            <button
+                                key={count}
+                                onClick={() => setPlayers(count)}
+                                className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all ${
+                                    count === players
+                                        ? 'bg-slate-600 border-slate-400 text-white'
+                                        : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500'
+                                }`}
+                            >
+                                {count}{t.playerTag}
+                            </button>
+                        ))}
+                    </div>
+                    {players > 1 && <p className="mt-2 text-xs text-slate-400">{t.coopHint}</p>}
+                </div>
+
+                {/* Difficulty and mutators (the daily challenge always plays on Normal) */}
+                <div className="mb-4">
+                    <p className="text-xs font-mono text-slate-500 mb-2 flex items-center justify-center gap-1">
+                        <Gauge className="w-3 h-3" /> {t.difficulty}
+                    </p>
+                    <div className="flex gap-2">
+                        {DIFFICULTY_IDS.map(id => (
+                            <button
+                                key={id}
+                                onClick={() => setDifficulty(id)}
+                                title={DIFFICULTIES[id].description[lang]}
+                                className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all ${
+                                    id === difficulty
+                                        ? 'bg-slate-600 border-slate-400 text-white'
+                                        : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500'
+                                }`}
+                            >
+                                {DIFFICULTIES[id].name[lang]}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => setActiveModal('mutators')}
+                        className="mt-2 w-full py-2 rounded-lg border border-slate-700 bg-slate-900/50 text-sm text-slate-300 hover:text-white hover:border-slate-500 transition-all flex items-center justify-center gap-2"
+                    >
+                        <FlaskConical className="w-4 h-4" /> {t.mutators}
+                        {mutators.length > 0 && <span className="text-purple-400 font-bold">({mutators.length})</span>}
+                        <span className="font-mono text-xs text-yellow-400">
+                            {formatMultiplier(getRunModifiers(difficulty, mutators).scoreMultiplier)}
+                        </span>
+                    </button>
+                </div>
+
                 {/* Main Menu Buttons Grid */}
                 <div className="grid grid-cols-2 gap-3">
                     {/* START Button (Full Width) */}
                     <button 
-                        onClick={startGame}
+                        onClick={() => startGame()}
                         className="col-span-2 group relative px-6 py-4 bg-red-600 hover:bg-red-500 text-white font-bold rounded-lg transition-all duration-200 hover:shadow-[0_0_20px_rgba(220,38,38,0.5)] flex items-center justify-center gap-2 overflow-hidden mb-2"
                     >
                         <div className="absolute inset-0 w-full h-full bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full group-hover:animate-[shimmer_1s_infinite]"></div>
@@ -383,7 +741,34 @@ const App: React.FC = () => {
                         <span className="text-lg tracking-widest">{t.start}</span>
                     </button>
 
+                    {/* Continue the saved run */}
+                    {savedRun && (
+                        <button 
+                            onClick={() => continueGame(savedRun)}
+                            className="col-span-2 px-6 py-3 bg-emerald-600/20 hover:bg-emerald-600/40 border border-emerald-500/50 text-emerald-300 font-bold rounded-lg transition-all flex items-center justify-center gap-2 mb-2"
+                        >
+                            <History className="w-5 h-5" />
+                            <span className="tracking-widest">{t.continueRun}</span>
+                            <span className="text-xs font-mono text-emerald-500/80">
+                                {t.waves} {savedRun.state.stats.wave} // {savedRun.state.stats.score.toLocaleString()}
+                            </span>
+                        </button>
+                    )}
+
+                    {/* Daily Challenge: same seed for everyone today */}
+                    <button 
+                        onClick={() => startGame(true)}
+                        className="col-span-2 px-6 py-3 bg-amber-600/20 hover:bg-amber-600/40 border border-amber-500/50 text-amber-300 font-bold rounded-lg transition-all flex items-center justify-center gap-2 mb-2"
+                    >
+                        <CalendarDays className="w-5 h-5" />
+                        <span className="tracking-widest">{t.daily}</span>
+                        <span className="text-xs font-mono text-amber-500/80">{dateKey()}</span>
+                    </button>
+
                     {/* Secondary Buttons */}
+                    <button onClick={() => setActiveModal('history')} className="menu-btn col-span-2">
+                      <ListOrdered className="w-4 h-4" /> {t.history}
+                    </button>
                     <button onClick={() => setActiveModal('settings')} className="menu-btn">
                       <Settings className="w-4 h-4" /> {t.settings}
                     </button>
@@ -396,10 +781,18 @@ const App: React.FC = () => {
                     <button onClick={() => setActiveModal('support')} className="menu-btn">
                       <Heart className="w-4 h-4" /> {t.support}
                     </button>
-                    <button onClick={() => setActiveModal('collabs')} className="col-span-2 menu-btn">
+                    <button onClick={() => setActiveModal('collabs')} className="menu-btn">
                       <Users className="w-4 h-4" /> {t.collabs}
                     </button>
+                    <button onClick={() => replayInputRef.current?.click()} className="menu-btn">
+                      <Upload className="w-4 h-4" /> {t.loadReplay}
+                    </button>
+                    <input ref={replayInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleReplayFile} />
                 </div>
+
+                {replayError && (
+                    <p className="mt-4 text-sm text-red-400 font-mono">{replayError}</p>
+                )}
                 
                 <style>{`
                   .menu-btn {
@@ -434,9 +827,31 @@ const App: React.FC = () => {
                 
                 {/* Stats Column */}
                 <div className="w-full md:w-1/2 p-8 border-b md:border-b-0 md:border-r border-slate-800 flex flex-col justify-center">
-                    <h2 className="font-creep text-5xl text-red-600 mb-6 text-center drop-shadow-md">{t.gameOver}</h2>
+                    <h2 className={`font-creep text-5xl ${lastOutcome === 'victory' ? 'text-green-500' : 'text-red-600'} mb-6 text-center drop-shadow-md`}>{lastOutcome === 'timeUp' ? t.timeUp : lastOutcome === 'victory' ? t.victory : t.gameOver}</h2>
+                    {isPersonalBest && (
+                        <p className="-mt-3 mb-4 text-center text-sm font-bold text-yellow-400 flex items-center justify-center gap-2 animate-pulse">
+                            <Star className="w-4 h-4 fill-current" /> {t.personalBest}
+                        </p>
+                    )}
+                    {runConfig.daily && (
+                        <p className="-mt-4 mb-4 text-center text-xs font-mono text-amber-400 flex items-center justify-center gap-1">
+                            <CalendarDays className="w-3 h-3" /> {t.dailyRun} // {dateKey()}
+                        </p>
+                    )}
+                    <p className="-mt-2 mb-4 text-center text-xs font-mono text-slate-500 flex items-center justify-center gap-1">
+                        <MapIcon className="w-3 h-3" /> {getMap(runConfig.mapId).name[lang]}
+                    </p>
                     
                     <div className="space-y-4">
+                        <div className="flex justify-between items-center border-b border-slate-800 pb-2">
+                            <span className="text-slate-400">{t.initials}</span>
+                            <input
+                                value={initials}
+                                onChange={(e) => changeInitials(e.target.value)}
+                                maxLength={3}
+                                className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-center font-mono text-lg font-bold tracking-widest text-white uppercase focus:outline-none focus:border-red-500"
+                            />
+                        </div>
                         <div className="flex justify-between items-center border-b border-slate-800 pb-2">
                             <span className="text-slate-400 flex items-center gap-2"><Trophy className="w-4 h-4" /> {t.score}</span>
                             <span className="text-2xl font-bold text-yellow-400">{lastStats.score.toLocaleString()}</span>
@@ -455,6 +870,73 @@ const App: React.FC = () => {
                                 {Math.floor((lastStats.shotsHit / (lastStats.shotsFired || 1)) * 100)}%
                             </span>
                         </div>
+                        {lastStats.players.length > 1 && (
+                            <table className="w-full text-sm border-b border-slate-800">
+                                <thead>
+                                    <tr>
+                                        <th />
+                                        {lastStats.players.map((_, i) => (
+                                            <th key={i} className="pb-1 text-right font-bold" style={{ color: PLAYER_COLORS[i] }}>{t.playerTag}{i + 1}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {([
+                                        [t.score, p => p.score.toLocaleString()],
+                                        [t.kills, p => p.kills],
+                                        [t.accuracy, p => `${Math.floor((p.shotsHit / (p.shotsFired || 1)) * 100)}%`],
+                                        [t.damageTaken, p => Math.round(p.damageTaken)],
+                                        [t.downs, p => p.downs],
+                                        [t.revives, p => p.revives]
+                                    ] as [string, (p: PlayerStats) => React.ReactNode][]).map(([label, value]) => (
+                                        <tr key={label}>
+                                            <td className="py-0.5 text-slate-400">{label}</td>
+                                            {lastStats.players.map((p, i) => (
+                                                <td key={i} className="py-0.5 text-right font-mono text-white">{value(p)}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        <div className="flex justify-between items-start gap-4 border-b border-slate-800 pb-2">
+                            <span className="text-slate-400">{t.modifiers}</span>
+                            <div className="flex flex-wrap justify-end gap-1">
+                                <span className="px-2 py-0.5 rounded bg-sky-900/30 border border-sky-800 text-sky-300 text-xs font-bold">
+                                    {GAME_MODES[runConfig.mode].name[lang]}
+                                </span>
+                                <span className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-300 text-xs font-bold">
+                                    {DIFFICULTIES[runConfig.difficulty].name[lang]}
+                                </span>
+                                {runConfig.mutators.map(id => (
+                                    <span key={id} className="px-2 py-0.5 rounded bg-purple-900/30 border border-purple-800 text-purple-300 text-xs font-bold">
+                                        {MUTATORS[id].name[lang]}
+                                    </span>
+                                ))}
+                                <span className="px-2 py-0.5 rounded bg-yellow-900/30 border border-yellow-800 text-yellow-400 text-xs font-mono font-bold" title={t.scoreMultiplier}>
+                                    {formatMultiplier(getRunModifiers(runConfig.difficulty, runConfig.mutators).scoreMultiplier)}
+                                </span>
+                            </div>
+                        </div>
+                        <div className="flex justify-between items-start gap-4 border-b border-slate-800 pb-2">
+                            <span className="text-slate-400">{t.perks}</span>
+                            <div className="flex flex-col items-end gap-1">
+                                {lastPerks.map((perks, i) => (
+                                    <div key={i} className="flex flex-wrap justify-end items-center gap-1">
+                                        {lastPerks.length > 1 && (
+                                            <span className="text-xs font-bold" style={{ color: PLAYER_COLORS[i] }}>{t.playerTag}{i + 1}</span>
+                                        )}
+                                        {perks.length === 0 ? (
+                                            <span className="text-slate-600 text-sm">{t.noPerks}</span>
+                                        ) : summarizePerks(perks).map(({ perk, count }) => (
+                                            <span key={perk.id} className="px-2 py-0.5 rounded bg-green-900/30 border border-green-800 text-green-400 text-xs font-bold">
+                                                {perk.name[lang]}{count > 1 && ` x${count}`}
+                                            </span>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
                     </div>
 
                     <div className="flex gap-3 mt-8">
@@ -465,13 +947,32 @@ const App: React.FC = () => {
                           {t.menu}
                       </button>
                       <button 
-                          onClick={startGame}
+                          onClick={() => startGame(runConfig.daily)}
                           className="flex-1 py-3 bg-slate-100 hover:bg-white text-slate-900 font-bold rounded flex items-center justify-center gap-2 transition-colors"
                       >
                           <RotateCcw className="w-5 h-5" />
                           {t.redeploy}
                       </button>
                     </div>
+
+                    {lastReplay && (
+                      <div className="flex gap-3 mt-3">
+                        <button 
+                            onClick={() => watchReplay(lastReplay, GameState.GAME_OVER)}
+                            className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold rounded flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <Film className="w-4 h-4" />
+                            {t.watchReplay}
+                        </button>
+                        <button 
+                            onClick={() => downloadReplay(lastReplay)}
+                            className="py-2 px-4 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold rounded flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <Download className="w-4 h-4" />
+                            {t.saveReplay}
+                        </button>
+                      </div>
+                    )}
                 </div>
 
                 {/* AI Report Column */}
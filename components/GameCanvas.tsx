@@ -1,53 +1,214 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { GameState, Player, Zombie, Bullet, Particle, GameStats, AcidPool, AmmoDrop } from '../types';
-import { Heart, Crosshair, Target, Zap } from 'lucide-react';
+import { GameState, GameStats, RunConfig, RunOutcome, Replay, RunSnapshot, WeaponSlot, PerkId, Entity, Player, StatusEffectType, SimulationState, SimulationInput, SimulationEvent, FloorTheme } from '../types';
+import { MAX_WEAPON_SLOTS, PICKUP_BLINK_TIME, DEFAULT_TICK_RATE, BLEED_OUT_TIME, REVIVE_RADIUS } from '../game/constants';
+import { getWeapon } from '../game/weapons';
+import { POWER_UPS, getPickupColor } from '../game/pickups';
+import { getArchetype } from '../game/zombies';
+import { BOSS_VARIANTS } from '../game/bosses';
+import { getEnemyProjectile } from '../game/enemyProjectiles';
+import { STATUS_EFFECTS } from '../game/statusEffects';
+import { getGameMode } from '../game/modes';
+import { createInitialState, createIdleInput, step, waveRemaining } from '../game/simulation';
+import { createFixedStepLoop, capturePositions, interpolate, PositionSnapshot } from '../game/loop';
+import { createReplayRecorder, resumeReplayRecorder, createReplayPlayer, ReplayRecorder, ReplayPlayer } from '../game/replay';
+import { createSnapshot } from '../game/snapshot';
+import { saveRun } from '../services/runSave';
+import { connectedGamepads, createGamepadReader } from '../services/gamepad';
+import ReplayControls from './ReplayControls';
+import WeaponIcon from './WeaponIcon';
+import { Heart, Crosshair, Target, Zap, Repeat, Bomb, Flame, Shield, Biohazard, Snowflake, Sparkles, Droplets, ShieldCheck, type LucideIcon } from 'lucide-react';
 
 interface GameCanvasProps {
   gameState: GameState;
   setGameState: (state: GameState) => void;
-  onGameOver: (stats: GameStats) => void;
-  onWaveChange: (wave: number, isHorde?: boolean) => void;
+  onGameOver: (stats: GameStats, replay: Replay, perks: PerkId[][], outcome: RunOutcome) => void; // One perk list per player
+  onWaveChange: (wave: number, isHorde?: boolean, isBoss?: boolean) => void; // A wave or horde has started
+  onPerkOffer: (options: PerkId[], choose: (index: number) => void) => void; // Wave break; the run waits in GameState.UPGRADE
   lang: 'es' | 'en';
+  runConfig: RunConfig;
+  replay: Replay | null; // Played back instead of a live run while in GameState.REPLAY
+  onExitReplay: () => void;
+  resumeRun: RunSnapshot | null; // Continued instead of starting fresh when the next run begins
+  tickRate?: number; // Simulation ticks per second, independent of the display refresh rate
 }
 
-// Constants
-const WORLD_WIDTH = 3000;
-const WORLD_HEIGHT = 3000;
-const PLAYER_SPEED = 5; // Slightly faster for larger map
-const BULLET_SPEED = 12;
-const ZOMBIE_SPAWN_RATE_BASE = 2000;
-const MAX_AMMO = 30;
-const RELOAD_TIME = 1500;
+// Floor, grid line and boundary colors per map theme
+const FLOOR_THEMES: Record<FloorTheme, { floor: string; grid: string; border: string }> = {
+  asphalt: { floor: '#0f172a', grid: '#1e293b', border: '#334155' },
+  concrete: { floor: '#18181b', grid: '#27272a', border: '#52525b' },
+  grass: { floor: '#052e16', grid: '#14532d', border: '#166534' },
+  sand: { floor: '#292524', grid: '#44403c', border: '#78716c' }
+};
+
+// What the ammo panel shows: the active weapon's magazine and reserve, plus the carried guns
+const ammoHud = (inventory: WeaponSlot[], activeSlot: number, reloading: boolean) => ({
+  current: inventory[activeSlot].ammo,
+  total: inventory[activeSlot].reserve,
+  reloading,
+  weapon: inventory[activeSlot].weapon,
+  slots: inventory.map(slot => slot.weapon),
+  activeSlot
+});
+
+const STATUS_ICONS: Record<StatusEffectType, LucideIcon> = {
+  burning: Flame,
+  poisoned: Biohazard,
+  slowed: Snowflake,
+  stunned: Sparkles,
+  bleeding: Droplets,
+  shielded: ShieldCheck
+};
+
+// Marks the effects on an entity: a pulsing ring per effect, stars circling a stunned one.
+// Expects the context translated to the entity's center.
+const drawStatusEffects = (ctx: CanvasRenderingContext2D, entity: Entity, now: number) => {
+  if (!entity.effects || entity.effects.length === 0) return;
+  ctx.save();
+  ctx.shadowBlur = 0;
+  ctx.lineWidth = 2;
+  entity.effects.forEach((effect, i) => {
+    const { color } = STATUS_EFFECTS[effect.type];
+    ctx.strokeStyle = color;
+    ctx.globalAlpha = 0.5 + Math.abs(Math.sin(now / 150 + i)) * 0.4;
+    ctx.beginPath();
+    ctx.arc(0, 0, entity.radius + 4 + i * 3, 0, Math.PI * 2);
+    ctx.stroke();
+
+    if (effect.type === 'stunned') {
+      ctx.fillStyle = color;
+      for (let star = 0; star < 3; star++) {
+        const angle = now / 200 + (Math.PI * 2 / 3) * star;
+        ctx.beginPath();
+        ctx.arc(Math.cos(angle) * entity.radius * 0.8, -entity.radius - 6 + Math.sin(angle) * 3, 2.5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  });
+  ctx.restore();
+};
+
+// How long the screen flashes red after the player is hit
+const HIT_FLASH_TIME = 200;
+
+// What the wave panel shows: the phase, its countdown and how much of an active wave is left,
+// plus the run clock and last wave for modes that have them
+const waveHud = (state: SimulationState) => {
+  const { timeLimit, finalWave } = getGameMode(state.config.mode);
+  return {
+    phase: state.wave.phase,
+    boss: state.wave.boss,
+    remaining: waveRemaining(state),
+    total: state.wave.total,
+    secondsLeft: Math.max(0, Math.ceil((state.wave.endsAt - state.time) / 1000)),
+    runSecondsLeft: timeLimit === undefined ? null : Math.max(0, Math.ceil((timeLimit - state.time) / 1000)),
+    finalWave
+  };
+};
+
+// What a player's health and ammo panels show. In co-op a downed player's panel counts down
+// to bleeding out instead.
+const playerHud = (state: SimulationState, player: Player) => ({
+  color: player.color,
+  condition: player.condition,
+  reviveProgress: player.reviveProgress,
+  bleedOutSeconds: Math.max(0, Math.ceil((player.downedAt + BLEED_OUT_TIME - state.time) / 1000)),
+  hp: Math.max(0, Math.floor((player.hp / player.maxHp) * 100)),
+  armor: Math.ceil(player.armor),
+  maxArmor: player.maxArmor,
+  ammo: ammoHud(player.inventory, player.activeSlot, player.isReloading),
+  throwable: { type: player.throwable, count: player.throwables },
+  powerUps: [...player.powerUps],
+  effects: (player.effects ?? []).map(effect => ({ ...effect }))
+});
+
+const bossHud = (state: SimulationState) => {
+  const boss = state.zombies.find(z => z.boss);
+  return boss?.boss ? { variant: boss.boss.variant, hp: Math.max(0, boss.hp), maxHp: boss.maxHp, phase: boss.boss.phase } : null;
+};
+
+// Everything the HUD overlay shows, copied out of the simulation in one go
+const hudFor = (state: SimulationState) => ({
+  time: state.time,
+  stats: { ...state.stats },
+  wave: waveHud(state),
+  boss: bossHud(state),
+  players: state.players.map(player => playerHud(state, player)),
+  padCount: state.players.length > 1 ? connectedGamepads().length : 0
+});
+
+type Hud = ReturnType<typeof hudFor>;
+
+// The canvas is drawn every frame, but the overlay only needs to keep up with what a player
+// can read, so it re-renders at this rate instead
+const HUD_REFRESH_INTERVAL = 1000 / 15;
+
+// Dropped pickups blink during their last seconds, faster right before they vanish
+const pickupVisible = (expiresAt: number, now: number) => {
+  const left = expiresAt - now;
+  if (left > PICKUP_BLINK_TIME) return true;
+  const period = left > PICKUP_BLINK_TIME / 3 ? 250 : 100;
+  return Math.floor(left / period) % 2 === 0;
+};
 
 const translations = {
     es: {
         reloading: "RECARGANDO",
+        phase: "FASE",
+        grenade: "Granada",
+        molotov: "Molotov",
         ammo: "MUNICIÓN",
-        low: "BAJA"
+        low: "BAJA",
+        startsIn: "EMPIEZA EN",
+        remaining: "RESTANTES",
+        cleared: "¡RONDA SUPERADA!",
+        nextWaveIn: "SIGUIENTE EN",
+        player: "J",
+        down: "CAÍDO",
+        reviving: "REANIMANDO",
+        dead: "MUERTO",
+        connectPad: "Conecta un mando para el J2"
     },
     en: {
         reloading: "RELOADING",
+        phase: "PHASE",
+        grenade: "Grenade",
+        molotov: "Molotov",
         ammo: "AMMO",
-        low: "LOW"
+        low: "LOW",
+        startsIn: "STARTS IN",
+        remaining: "LEFT",
+        cleared: "WAVE CLEARED!",
+        nextWaveIn: "NEXT WAVE IN",
+        player: "P",
+        down: "DOWN",
+        reviving: "REVIVING",
+        dead: "DEAD",
+        connectPad: "Connect a gamepad for P2"
     }
 };
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGameOver, onWaveChange, lang }) => {
+const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGameOver, onWaveChange, onPerkOffer, lang, runConfig, replay, onExitReplay, resumeRun, tickRate = DEFAULT_TICK_RATE }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const joystickKnobRef = useRef<HTMLDivElement>(null);
   const t = translations[lang];
   
-  const [hudStats, setHudStats] = useState<GameStats>({
-    score: 0,
-    wave: 1,
-    kills: 0,
-    timeSurvived: 0,
-    accuracy: 0,
-    shotsFired: 0,
-    shotsHit: 0
-  });
-  const [playerHp, setPlayerHp] = useState(100);
-  const [ammoState, setAmmoState] = useState({ current: 30, total: 90, reloading: false });
+  const isRunning = gameState === GameState.PLAYING || gameState === GameState.PAUSED || gameState === GameState.UPGRADE || gameState === GameState.REPLAY;
+  const isReplay = gameState === GameState.REPLAY;
+
+  // Until the first run starts the HUD shows what a fresh one begins with
+  const [hud, setHud] = useState(() => hudFor(createInitialState(runConfig)));
+  const [replayStatus, setReplayStatus] = useState({ tick: 0, totalTicks: 0, paused: false, speed: 1 });
+  const { stats: hudStats, wave: waveState, boss: bossState, players, padCount } = hud;
+  const [player] = players; // The touch controls are always for the first player
+
+  // The loop reads these through refs, so it keeps running (and keeps its timing) when App
+  // re-renders or the run pauses, and only restarts for a new run
+  const screenRef = useRef(gameState);
+  const callbacksRef = useRef({ onGameOver, onWaveChange, onPerkOffer });
+  useEffect(() => {
+    screenRef.current = gameState;
+    callbacksRef.current = { onGameOver, onWaveChange, onPerkOffer };
+  }, [gameState, onGameOver, onWaveChange, onPerkOffer]);
 
   // Controls Refs
   const joystickRef = useRef({
@@ -57,73 +218,121 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
     identifier: null as number | null
   });
   const isFiringRef = useRef(false);
-  
-  // Camera Ref
-  const cameraRef = useRef({ x: 0, y: 0 });
-
-  // Mutable game state references
-  const gameStateRef = useRef({
-    player: {
-      id: 'player',
-      x: WORLD_WIDTH / 2,
-      y: WORLD_HEIGHT / 2,
-      dx: 0,
-      dy: 0,
-      radius: 15,
-      color: '#3b82f6',
-      hp: 100,
-      maxHp: 100,
-      damage: 25,
-      speed: PLAYER_SPEED,
-      angle: 0,
-      ammo: MAX_AMMO,
-      maxAmmo: MAX_AMMO,
-      totalAmmo: 90,
-      isReloading: false,
-      reloadProgress: 0
-    } as Player,
-    bullets: [] as Bullet[],
-    zombies: [] as Zombie[],
-    particles: [] as Particle[],
-    acidPools: [] as AcidPool[],
-    ammoDrops: [] as AmmoDrop[],
+
+  // Raw input collected between ticks, turned into a SimulationInput by readInput()
+  const inputRef = useRef({
     keys: { w: false, a: false, s: false, d: false },
     mouse: { x: 0, y: 0 },
-    lastShot: 0,
-    lastSpawn: 0,
-    lastHorde: 0,
-    stats: {
-      score: 0,
-      wave: 1,
-      kills: 0,
-      timeSurvived: 0,
-      accuracy: 0,
-      shotsFired: 0,
-      shotsHit: 0
-    } as GameStats,
-    startTime: 0,
-    isGameOver: false,
-    bossSpawnedForWave: 0,
-    lastDamageTick: 0,
-    reloadStartTime: 0
+    fireQueued: false,
+    reloadQueued: false,
+    slotQueued: null as number | null,
+    throwQueued: null as SimulationInput['throw'],
+    perkQueued: null as number | null
   });
 
+  const gamepadReaderRef = useRef(createGamepadReader());
+
+  // Simulation state for the current run. Null until a run starts.
+  const gameStateRef = useRef<SimulationState | null>(null);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+
+  // Replay playback
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const replayControlRef = useRef({ paused: false, speed: 1 });
+
+  // Positions before the last tick, for interpolated rendering
+  const previousRef = useRef<PositionSnapshot | null>(null);
+
   // --- Input Handling ---
 
   const startReload = useCallback(() => {
+      inputRef.current.reloadQueued = true;
+  }, []);
+
+  const queueThrow = useCallback((mode: 'aim' | 'auto') => {
+      inputRef.current.throwQueued = mode;
+  }, []);
+
+  const choosePerk = useCallback((index: number) => {
+      inputRef.current.perkQueued = index;
+  }, []);
+
+  const selectWeapon = useCallback((slot: number) => {
+      inputRef.current.slotQueued = slot;
+  }, []);
+
+  // Steps through the carried weapons, wrapping around (mouse wheel, mobile swap button)
+  const cycleWeapon = useCallback((direction: number) => {
       const state = gameStateRef.current;
-      if (state.player.isReloading || state.player.ammo === state.player.maxAmmo || state.player.totalAmmo <= 0) return;
-      
-      state.player.isReloading = true;
-      state.reloadStartTime = Date.now();
+      if (!state) return;
+      const count = state.players[0].inventory.length;
+      const from = inputRef.current.slotQueued ?? state.players[0].activeSlot;
+      inputRef.current.slotQueued = (from + direction + count) % count;
   }, []);
 
+  // Keyboard, mouse and touch, always for the first player
+  const readInput = (state: SimulationState): SimulationInput => {
+    const input = inputRef.current;
+    let moveX = 0;
+    let moveY = 0;
+
+    if (input.keys.w) moveY -= 1;
+    if (input.keys.s) moveY += 1;
+    if (input.keys.a) moveX -= 1;
+    if (input.keys.d) moveX += 1;
+
+    if (joystickRef.current.active) {
+        const dx = joystickRef.current.current.x - joystickRef.current.origin.x;
+        const dy = joystickRef.current.current.y - joystickRef.current.origin.y;
+        const maxDist = 40;
+        const dist = Math.hypot(dx, dy);
+        const intensity = Math.min(dist / maxDist, 1);
+        const angle = Math.atan2(dy, dx);
+        moveX += Math.cos(angle) * intensity;
+        moveY += Math.sin(angle) * intensity;
+    }
+
+    const simInput: SimulationInput = {
+      move: { x: moveX, y: moveY },
+      // Mouse is in Screen Space, convert to World Space
+      aim: { x: input.mouse.x / state.camera.zoom + state.camera.x, y: input.mouse.y / state.camera.zoom + state.camera.y },
+      fire: input.fireQueued,
+      autoFire: isFiringRef.current,
+      reload: input.reloadQueued,
+      weaponSlot: input.slotQueued,
+      throw: input.throwQueued,
+      perk: input.perkQueued
+    };
+
+    input.fireQueued = false;
+    input.reloadQueued = false;
+    input.slotQueued = null;
+    input.throwQueued = null;
+    input.perkQueued = null;
+    return simInput;
+  };
+
+  // One input per player. In co-op the second player always has the last gamepad; with two
+  // pads connected the first one takes over from the keyboard for player one (perk picks
+  // still come from the overlay).
+  const readInputs = (state: SimulationState): SimulationInput[] => {
+    const keyboard = readInput(state);
+    if (state.players.length < 2) return [keyboard];
+
+    const pads = connectedGamepads();
+    const reader = gamepadReaderRef.current;
+    const first = pads.length >= 2 ? { ...reader.read(pads[0], state.players[0]), perk: keyboard.perk } : keyboard;
+    const second = pads.length >= 1 ? reader.read(pads[pads.length - 1], state.players[1]) : createIdleInput();
+    return [first, second];
+  };
+
   // Keyboard & Mouse
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
-      if (gameStateRef.current.keys.hasOwnProperty(key)) {
-        gameStateRef.current.keys[key as keyof typeof gameStateRef.current.keys] = true;
+      const keys = inputRef.current.keys;
+      if (keys.hasOwnProperty(key)) {
+        keys[key as keyof typeof keys] = true;
       }
       // Escape to Pause
       if (e.key === 'Escape' && gameState === GameState.PLAYING) {
@@ -133,23 +342,38 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
       if (key === 'r' && gameState === GameState.PLAYING) {
           startReload();
       }
+      // Throw towards the cursor
+      if (key === 'g' && gameState === GameState.PLAYING) {
+          queueThrow('aim');
+      }
+      // Weapon hotkeys 1-4
+      if (key >= '1' && key <= String(MAX_WEAPON_SLOTS) && gameState === GameState.PLAYING) {
+          selectWeapon(Number(key) - 1);
+      }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
-      if (gameStateRef.current.keys.hasOwnProperty(key)) {
-        gameStateRef.current.keys[key as keyof typeof gameStateRef.current.keys] = false;
+      const keys = inputRef.current.keys;
+      if (keys.hasOwnProperty(key)) {
+        keys[key as keyof typeof keys] = false;
       }
     };
 
     const handleMouseMove = (e: MouseEvent) => {
-      gameStateRef.current.mouse.x = e.clientX;
-      gameStateRef.current.mouse.y = e.clientY;
+      inputRef.current.mouse.x = e.clientX;
+      inputRef.current.mouse.y = e.clientY;
     };
 
     const handleMouseDown = () => {
       if (gameState === GameState.PLAYING) {
-        shoot();
+        inputRef.current.fireQueued = true;
+      }
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      if (gameState === GameState.PLAYING && e.deltaY !== 0) {
+        cycleWeapon(e.deltaY > 0 ? 1 : -1);
       }
     };
 
@@ -157,14 +381,16 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
     window.addEventListener('keyup', handleKeyUp);
     window.addEventListener('mousemove', handleMouseMove);
     window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('wheel', handleWheel);
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('wheel', handleWheel);
     };
-  }, [gameState, setGameState, startReload]);
+  }, [gameState, setGameState, startReload, queueThrow, selectWeapon, cycleWeapon]);
 
   // Joystick Logic
   const handleJoystickStart = (e: React.TouchEvent) => {
@@ -231,281 +457,29 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
     isFiringRef.current = false;
   };
 
-  // --- Game Logic Helpers ---
-
-  const shoot = (targetOverride?: {x: number, y: number}) => {
-    const state = gameStateRef.current;
-    const now = Date.now();
-    
-    // Check reload
-    if (state.player.isReloading) return;
-
-    // Check Ammo
-    if (state.player.ammo <= 0) {
-        startReload();
-        return;
-    }
-
-    if (now - state.lastShot < 150) return; // Fire rate limit
-
-    state.lastShot = now;
-    state.stats.shotsFired++;
-    state.player.ammo--;
-
-    let targetX, targetY;
-
-    if (targetOverride) {
-        // Target is already in World Space
-        targetX = targetOverride.x;
-        targetY = targetOverride.y;
-    } else {
-        // Mouse is in Screen Space, convert to World Space
-        targetX = state.mouse.x + cameraRef.current.x;
-        targetY = state.mouse.y + cameraRef.current.y;
-    }
-
-    const angle = Math.atan2(
-      targetY - state.player.y,
-      targetX - state.player.x
-    );
-    
-    // Update player angle immediately for visual feedback
-    state.player.angle = angle;
-
-    const bullet: Bullet = {
-      id: `bullet-${now}`,
-      x: state.player.x + Math.cos(angle) * 20,
-      y: state.player.y + Math.sin(angle) * 20,
-      dx: Math.cos(angle) * BULLET_SPEED,
-      dy: Math.sin(angle) * BULLET_SPEED,
-      radius: 4,
-      color: '#facc15',
-      hp: 1,
-      maxHp: 1,
-      damage: state.player.damage,
-      speed: BULLET_SPEED,
-      createdAt: now
-    };
-
-    state.bullets.push(bullet);
-  };
-
-  const findNearestZombie = () => {
-    const state = gameStateRef.current;
-    let nearest: Zombie | null = null;
-    let minDist = Infinity;
-    // Only check zombies visible or close to visible could be an optimization, 
-    // but for auto-aim we probably want the absolute closest even if off-screen slightly.
-    
-    state.zombies.forEach(z => {
-        const dist = Math.hypot(state.player.x - z.x, state.player.y - z.y);
-        if (dist < minDist && dist < 600) { // Max range for auto-aim
-            minDist = dist;
-            nearest = z;
-        }
-    });
-    return nearest;
-  };
-
-  const spawnZombie = (overrideX?: number, overrideY?: number) => {
-    const state = gameStateRef.current;
-    const currentWave = state.stats.wave;
-    const waveMultiplier = 1 + (currentWave * 0.1);
-    
-    // BOSS LOGIC (Every 10 waves)
-    if (currentWave % 10 === 0 && state.bossSpawnedForWave !== currentWave) {
-      state.bossSpawnedForWave = currentWave;
-      // Boss spawns near player but far enough
-      const angle = Math.random() * Math.PI * 2;
-      const boss: Zombie = {
-        id: `boss-${currentWave}`,
-        x: state.player.x + Math.cos(angle) * 600,
-        y: state.player.y + Math.sin(angle) * 600,
-        dx: 0,
-        dy: 0,
-        radius: 60,
-        color: '#0f0f0f',
-        hp: 800 * waveMultiplier,
-        maxHp: 800 * waveMultiplier,
-        damage: 50,
-        speed: 2.2, // Faster boss for bigger map
-        type: 'boss'
-      };
-      // Clamp boss to world
-      boss.x = Math.max(60, Math.min(WORLD_WIDTH - 60, boss.x));
-      boss.y = Math.max(60, Math.min(WORLD_HEIGHT - 60, boss.y));
-      
-      state.zombies.push(boss);
-      return;
-    }
-
-    // Spawn Location
-    let x, y;
-    if (overrideX !== undefined && overrideY !== undefined) {
-        x = overrideX;
-        y = overrideY;
-    } else {
-        // Spawn just outside camera view
-        const cam = cameraRef.current;
-        const viewW = window.innerWidth;
-        const viewH = window.innerHeight;
-        const padding = 100;
-
-        // Randomize side: 0=Top, 1=Right, 2=Bottom, 3=Left
-        const side = Math.floor(Math.random() * 4);
-        
-        if (side === 0) { // Top
-             x = cam.x + Math.random() * viewW;
-             y = cam.y - padding;
-        } else if (side === 1) { // Right
-             x = cam.x + viewW + padding;
-             y = cam.y + Math.random() * viewH;
-        } else if (side === 2) { // Bottom
-             x = cam.x + Math.random() * viewW;
-             y = cam.y + viewH + padding;
-        } else { // Left
-             x = cam.x - padding;
-             y = cam.y + Math.random() * viewH;
-        }
-    }
-
-    // Clamp to World
-    x = Math.max(20, Math.min(WORLD_WIDTH - 20, x));
-    y = Math.max(20, Math.min(WORLD_HEIGHT - 20, y));
-
-    const typeRoll = Math.random();
-    let type: Zombie['type'] = 'walker';
-    let speed = 2;
-    let hp = 30;
-    let radius = 12;
-    let color = '#4ade80'; // Green
-
-    // Spawn Logic (Progressive)
-    if (currentWave >= 4) {
-        const runnerChance = Math.min(0.1 + (currentWave * 0.05), 0.5);
-        if (typeRoll < runnerChance) {
-            type = 'runner';
-            speed = 5;
-            hp = 20;
-            color = '#f87171'; // Red
-        }
-    }
-
-    if (currentWave >= 7) {
-        if (typeRoll > 0.85) {
-            type = 'exploder';
-            speed = 3.5;
-            hp = 40;
-            color = '#fb923c'; // Orange
-            radius = 16;
-        }
-    }
-
-    if (currentWave >= 12) {
-        if (typeRoll > 0.92) {
-            type = 'acid';
-            speed = 3;
-            hp = 60;
-            color = '#bef264'; // Lime
-            radius = 16;
-        }
-    }
-
-    if (currentWave >= 10 && typeRoll > 0.95) {
-      type = 'tank';
-      speed = 1.5;
-      hp = 150;
-      radius = 22;
-      color = '#a855f7'; // Purple
-    }
-
-    const zombie: Zombie = {
-      id: `zombie-${Date.now()}-${Math.random()}`,
-      x,
-      y,
-      dx: 0,
-      dy: 0,
-      radius,
-      color,
-      hp: hp * waveMultiplier,
-      maxHp: hp * waveMultiplier,
-      damage: 10 * waveMultiplier,
-      speed: speed + (Math.random() * 0.5),
-      type
-    };
-
-    state.zombies.push(zombie);
-  };
-
-  const triggerHorde = () => {
-      const state = gameStateRef.current;
-      onWaveChange(state.stats.wave, true); 
-      
-      const centerX = state.player.x;
-      const centerY = state.player.y;
-      const radius = 700; // Spawn circle radius (larger than before due to camera)
-
-      const count = 15 + Math.floor(Math.random() * 10);
-      for (let i = 0; i < count; i++) {
-          const angle = (Math.PI * 2 / count) * i;
-          const spawnX = centerX + Math.cos(angle) * radius;
-          const spawnY = centerY + Math.sin(angle) * radius;
-          // Check bounds
-          if (spawnX > 0 && spawnX < WORLD_WIDTH && spawnY > 0 && spawnY < WORLD_HEIGHT) {
-              spawnZombie(spawnX, spawnY);
-          }
-      }
-  };
+  // --- Replay Playback ---
+  useEffect(() => {
+    replayControlRef.current = { paused: false, speed: 1 };
+    previousRef.current = null;
+    replayPlayerRef.current = gameState === GameState.REPLAY && replay ? createReplayPlayer(replay) : null;
+  }, [gameState, replay]);
 
-  const createParticles = (x: number, y: number, color: string, count: number) => {
-    for (let i = 0; i < count; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = Math.random() * 4;
-      gameStateRef.current.particles.push({
-        id: `p-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        dx: Math.cos(angle) * speed,
-        dy: Math.sin(angle) * speed,
-        life: 1.0,
-        maxLife: 1.0,
-        color,
-        size: Math.random() * 3 + 1
-      });
-    }
+  const toggleReplayPause = () => {
+    replayControlRef.current.paused = !replayControlRef.current.paused;
   };
 
-  const createExplosion = (x: number, y: number) => {
-      const state = gameStateRef.current;
-      createParticles(x, y, '#fb923c', 30);
-      createParticles(x, y, '#ef4444', 20);
-      
-      const distToPlayer = Math.hypot(state.player.x - x, state.player.y - y);
-      if (distToPlayer < 120) {
-          state.player.hp -= 25;
-          setPlayerHp(Math.max(0, Math.floor(state.player.hp)));
-      }
-
-      state.zombies.forEach(z => {
-          if (Math.hypot(z.x - x, z.y - y) < 120) {
-              z.hp -= 100;
-          }
-      });
+  const seekReplay = (tick: number) => {
+    replayPlayerRef.current?.seek(tick);
+    previousRef.current = null;
   };
 
-  const spawnAmmoDrop = (x: number, y: number) => {
-      gameStateRef.current.ammoDrops.push({
-          id: `ammo-${Date.now()}-${Math.random()}`,
-          x,
-          y,
-          radius: 12,
-          amount: 15 + Math.floor(Math.random() * 20) 
-      });
+  const changeReplaySpeed = (speed: number) => {
+    replayControlRef.current.speed = speed;
   };
 
   // --- Main Loop ---
   useEffect(() => {
-    if (gameState !== GameState.PLAYING && gameState !== GameState.PAUSED) return;
+    if (!isRunning) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -515,317 +489,197 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
     const handleResize = () => {
         canvas.width = window.innerWidth;
         canvas.height = window.innerHeight;
+
+        // Spawn positions depend on the view size, so live runs record every change
+        const state = gameStateRef.current;
+        if (!isReplay && state) {
+            state.camera.width = canvas.width;
+            state.camera.height = canvas.height;
+            recorderRef.current?.resize(canvas.width, canvas.height);
+        }
     };
     window.addEventListener('resize', handleResize);
     handleResize();
 
     // Initialize game if needed
-    if (gameStateRef.current.startTime === 0) {
-        gameStateRef.current.startTime = Date.now();
-        gameStateRef.current.isGameOver = false;
-        
-        // Reset Game - Center of World
-        gameStateRef.current.player.x = WORLD_WIDTH / 2;
-        gameStateRef.current.player.y = WORLD_HEIGHT / 2;
-        gameStateRef.current.player.hp = 100;
-        gameStateRef.current.player.ammo = MAX_AMMO;
-        gameStateRef.current.player.totalAmmo = 90;
-        gameStateRef.current.player.isReloading = false;
-        
-        gameStateRef.current.zombies = [];
-        gameStateRef.current.bullets = [];
-        gameStateRef.current.particles = [];
-        gameStateRef.current.acidPools = [];
-        gameStateRef.current.ammoDrops = [];
-        gameStateRef.current.bossSpawnedForWave = 0;
-        gameStateRef.current.stats = {
-            score: 0,
-            wave: 1,
-            kills: 0,
-            timeSurvived: 0,
-            accuracy: 0,
-            shotsFired: 0,
-            shotsHit: 0
-        };
-        setPlayerHp(100);
-        setHudStats(gameStateRef.current.stats);
-        setAmmoState({ current: MAX_AMMO, total: 90, reloading: false });
-        
-        // Init camera
-        cameraRef.current.x = (WORLD_WIDTH / 2) - (canvas.width / 2);
-        cameraRef.current.y = (WORLD_HEIGHT / 2) - (canvas.height / 2);
+    if (!isReplay && (!gameStateRef.current || gameStateRef.current.isGameOver)) {
+        if (resumeRun) {
+            const state = structuredClone(resumeRun.state);
+            state.camera.width = canvas.width;
+            state.camera.height = canvas.height;
+            gameStateRef.current = state;
+            recorderRef.current = resumeReplayRecorder(resumeRun.replay);
+            recorderRef.current.resize(canvas.width, canvas.height);
+        } else {
+            gameStateRef.current = createInitialState(runConfig, canvas.width, canvas.height);
+            recorderRef.current = createReplayRecorder(runConfig, tickRate, canvas.width, canvas.height);
+        }
+        previousRef.current = null;
+        setHud(hudFor(gameStateRef.current));
+
+        // Saved during a wave break: reopen the perk choice
+        if (gameStateRef.current.perkOffer.length > 0) callbacksRef.current.onPerkOffer([...gameStateRef.current.perkOffer], choosePerk);
     }
 
+    // Stops stepping once a perk is offered, until App has switched to the perk choice and back
+    let offerOpen = false;
+    let lastHit = -Infinity;
+
+    const handleEvent = (event: SimulationEvent) => {
+      const { onGameOver, onWaveChange, onPerkOffer } = callbacksRef.current;
+      if (event.type === 'wave') onWaveChange(event.wave, false, event.boss);
+      if (event.type === 'horde') onWaveChange(event.wave, true);
+      if (event.type === 'damage' && event.damageType !== 'effect' && gameStateRef.current) lastHit = gameStateRef.current.time;
+      if (event.type === 'perkOffer') {
+        offerOpen = true;
+        onPerkOffer(event.options, choosePerk);
+      }
+      if (event.type === 'gameOver' && recorderRef.current) {
+        onGameOver(event.stats, recorderRef.current.finish(event.stats), gameStateRef.current?.players.map(p => [...p.perks]) ?? [], event.outcome);
+      }
+    };
 
     let animationFrameId: number;
+    let lastFrame = performance.now();
+    let lastHudSync = -Infinity;
+    const loop = createFixedStepLoop(isReplay && replay ? replay.tickRate : tickRate);
+    let alpha = 1;
 
     const render = () => {
-      if (gameStateRef.current.isGameOver) return;
-
-      const state = gameStateRef.current;
-      const now = Date.now();
-
-      if (gameState === GameState.PLAYING) {
-        
-        // Reloading Logic
-        if (state.player.isReloading) {
-            state.player.reloadProgress = (now - state.reloadStartTime) / RELOAD_TIME;
-            if (state.player.reloadProgress >= 1) {
-                state.player.isReloading = false;
-                state.player.reloadProgress = 0;
-                
-                const needed = state.player.maxAmmo - state.player.ammo;
-                const taken = Math.min(needed, state.player.totalAmmo);
-                state.player.ammo += taken;
-                state.player.totalAmmo -= taken;
-            }
+      const frameTime = performance.now();
+      const frameDelta = frameTime - lastFrame;
+      lastFrame = frameTime;
+
+      const screen = screenRef.current;
+      if (screen !== GameState.PLAYING) offerOpen = false;
+      const syncHud = frameTime - lastHudSync >= HUD_REFRESH_INTERVAL;
+      if (syncHud) lastHudSync = frameTime;
+
+      const playback = replayPlayerRef.current;
+      const live = gameStateRef.current;
+
+      if (isReplay && playback) {
+        const control = replayControlRef.current;
+        if (!control.paused) {
+          alpha = loop.advance(frameDelta * control.speed, () => {
+            if (playback.tick >= playback.totalTicks) return;
+            previousRef.current = capturePositions(playback.state);
+            playback.step();
+          });
         }
-
-        // 1. Player Movement
-        let moveX = 0;
-        let moveY = 0;
-
-        if (state.keys.w) moveY -= 1;
-        if (state.keys.s) moveY += 1;
-        if (state.keys.a) moveX -= 1;
-        if (state.keys.d) moveX += 1;
-
-        if (joystickRef.current.active) {
-            const dx = joystickRef.current.current.x - joystickRef.current.origin.x;
-            const dy = joystickRef.current.current.y - joystickRef.current.origin.y;
-            const maxDist = 40;
-            const dist = Math.hypot(dx, dy);
-            const intensity = Math.min(dist / maxDist, 1);
-            const angle = Math.atan2(dy, dx);
-            moveX += Math.cos(angle) * intensity;
-            moveY += Math.sin(angle) * intensity;
+        if (syncHud) {
+          setHud(hudFor(playback.state));
+          setReplayStatus({ tick: playback.tick, totalTicks: playback.totalTicks, paused: control.paused, speed: control.speed });
         }
-
-        const len = Math.hypot(moveX, moveY);
-        if (len > 1) {
-            moveX /= len;
-            moveY /= len;
-        }
-
-        state.player.x += moveX * state.player.speed;
-        state.player.y += moveY * state.player.speed;
-
-        // Clamp to WORLD size
-        state.player.x = Math.max(state.player.radius, Math.min(WORLD_WIDTH - state.player.radius, state.player.x));
-        state.player.y = Math.max(state.player.radius, Math.min(WORLD_HEIGHT - state.player.radius, state.player.y));
-
-        // 2. Camera Update (Follow Player)
-        let camX = state.player.x - canvas.width / 2;
-        let camY = state.player.y - canvas.height / 2;
-        
-        // Clamp Camera
-        camX = Math.max(0, Math.min(camX, WORLD_WIDTH - canvas.width));
-        camY = Math.max(0, Math.min(camY, WORLD_HEIGHT - canvas.height));
-        
-        cameraRef.current.x = camX;
-        cameraRef.current.y = camY;
-
-        // 3. Shooting
-        if (isFiringRef.current) {
-            const nearest = findNearestZombie();
-            if (nearest) {
-                shoot({ x: nearest.x, y: nearest.y });
-            } else {
-                const forwardX = state.player.x + Math.cos(state.player.angle) * 100;
-                const forwardY = state.player.y + Math.sin(state.player.angle) * 100;
-                shoot({ x: forwardX, y: forwardY });
-            }
-        }
-
-        // 4. Spawning
-        const spawnRate = Math.max(500, ZOMBIE_SPAWN_RATE_BASE - (state.stats.wave * 100));
-        if (now - state.lastSpawn > spawnRate) {
-            spawnZombie();
-            state.lastSpawn = now;
-        }
-
-        if (now - state.lastHorde > 40000 && state.stats.wave > 3) { 
-             if (Math.random() < 0.002) { 
-                 state.lastHorde = now;
-                 triggerHorde();
-             }
-        }
-
-        if (state.stats.kills > state.stats.wave * 10 + (state.stats.wave * state.stats.wave)) {
-            state.stats.wave++;
-            onWaveChange(state.stats.wave, false);
-        }
-
-        // 5. Entities Update
-        
-        // Acid Pools
-        for (let i = state.acidPools.length - 1; i >= 0; i--) {
-            const pool = state.acidPools[i];
-            if (now - pool.creationTime > pool.duration) {
-                state.acidPools.splice(i, 1);
-                continue;
-            }
-            if (now - state.lastDamageTick > 500) { 
-                const dist = Math.hypot(state.player.x - pool.x, state.player.y - pool.y);
-                if (dist < pool.radius) {
-                    state.player.hp -= 5;
-                    setPlayerHp(Math.floor(state.player.hp));
-                    state.lastDamageTick = now;
-                }
-            }
-        }
-
-        // Ammo
-        for (let i = state.ammoDrops.length - 1; i >= 0; i--) {
-            const drop = state.ammoDrops[i];
-            const dist = Math.hypot(state.player.x - drop.x, state.player.y - drop.y);
-            if (dist < state.player.radius + drop.radius) {
-                state.player.totalAmmo += drop.amount;
-                state.ammoDrops.splice(i, 1);
-            }
-        }
-
-        // Bullets
-        for (let i = state.bullets.length - 1; i >= 0; i--) {
-            const b = state.bullets[i];
-            b.x += b.dx;
-            b.y += b.dy;
-            // Cull bullets outside world
-            if (b.x < 0 || b.x > WORLD_WIDTH || b.y < 0 || b.y > WORLD_HEIGHT) {
-              state.bullets.splice(i, 1);
-            }
-        }
-
-        // Zombies
-        for (let i = state.zombies.length - 1; i >= 0; i--) {
-            const z = state.zombies[i];
-            
-            const angle = Math.atan2(state.player.y - z.y, state.player.x - z.x);
-            z.x += Math.cos(angle) * z.speed;
-            z.y += Math.sin(angle) * z.speed;
-
-            // Bullet Collision
-            for (let j = state.bullets.length - 1; j >= 0; j--) {
-              const b = state.bullets[j];
-              const dist = Math.hypot(b.x - z.x, b.y - z.y);
-              
-              if (dist < z.radius + b.radius) {
-                  z.hp -= b.damage;
-                  state.stats.shotsHit++;
-                  createParticles(b.x, b.y, z.color, 3);
-                  state.bullets.splice(j, 1);
-
-                  if (z.hp <= 0) {
-                    state.stats.kills++;
-                    
-                    if (z.type === 'exploder') {
-                        createExplosion(z.x, z.y);
-                    } else if (z.type === 'acid') {
-                        state.acidPools.push({
-                            id: `pool-${now}`,
-                            x: z.x,
-                            y: z.y,
-                            radius: 40,
-                            creationTime: now,
-                            duration: 5000
-                        });
-                        createParticles(z.x, z.y, '#bef264', 15);
-                    } else {
-                        createParticles(z.x, z.y, z.type === 'boss' ? '#6b21a8' : '#ef4444', 10);
-                    }
-
-                    if (Math.random() < 0.3) spawnAmmoDrop(z.x, z.y);
-                    
-                    let scoreAdd = 10;
-                    if (z.type === 'tank') scoreAdd = 50;
-                    if (z.type === 'runner') scoreAdd = 20;
-                    if (z.type === 'exploder') scoreAdd = 30;
-                    if (z.type === 'acid') scoreAdd = 40;
-                    if (z.type === 'boss') scoreAdd = 500;
-                    
-                    state.stats.score += scoreAdd;
-                    state.zombies.splice(i, 1);
-                  }
-                  break;
-              }
-            }
-
-            // Player Collision
-            if (state.zombies.includes(z)) {
-              const distToPlayer = Math.hypot(state.player.x - z.x, state.player.y - z.y);
-              if (distToPlayer < state.player.radius + z.radius) {
-                  state.player.hp -= 0.5;
-                  setPlayerHp(Math.floor(state.player.hp));
-                  
-                  if (state.player.hp <= 0) {
-                    state.isGameOver = true;
-                    state.stats.timeSurvived = (Date.now() - state.startTime) / 1000;
-                    onGameOver(state.stats);
-                  }
-              }
-            }
-        }
-
-        for (let i = state.particles.length - 1; i >= 0; i--) {
-            const p = state.particles[i];
-            p.x += p.dx;
-            p.y += p.dy;
-            p.life -= 0.05;
-            if (p.life <= 0) state.particles.splice(i, 1);
-        }
-        
-        setHudStats({...state.stats});
-        setAmmoState({
-            current: state.player.ammo,
-            total: state.player.totalAmmo,
-            reloading: state.player.isReloading
+      } else if (screen === GameState.PLAYING && live && !live.isGameOver) {
+        alpha = loop.advance(frameDelta, (dt) => {
+          if (live.isGameOver || offerOpen) return;
+          previousRef.current = capturePositions(live);
+          const raw = readInputs(live);
+          const inputs = recorderRef.current ? recorderRef.current.record(raw) : raw;
+          step(live, inputs, dt).forEach(handleEvent);
         });
+        if (syncHud) setHud(hudFor(live));
       }
 
+      const state = isReplay ? playback?.state : live;
+      if (!state) return;
+
       // --- Render ---
       
-      if (gameState === GameState.PAUSED) {
+      if (screen === GameState.PAUSED) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
         ctx.fillStyle = '#0f172a';
         ctx.fillRect(0,0, canvas.width, canvas.height);
       } else {
-          ctx.fillStyle = '#0f172a'; // World BG color
+          ctx.fillStyle = '#020617'; // Outside the map
           ctx.fillRect(0, 0, canvas.width, canvas.height);
       }
 
-      const camX = cameraRef.current.x;
-      const camY = cameraRef.current.y;
+      // Blend between the last two ticks so motion stays smooth at any refresh rate
+      const previous = previousRef.current;
+      const at = (e: { id: string, x: number, y: number }) => interpolate(previous?.entities.get(e.id), e, alpha);
+      const now = state.time;
+      const cam = interpolate(previous?.camera, state.camera, alpha);
+      const camX = cam.x;
+      const camY = cam.y;
+      const zoom = previous ? previous.camera.zoom + (state.camera.zoom - previous.camera.zoom) * alpha : state.camera.zoom;
+      const viewWidth = canvas.width / zoom;
+      const viewHeight = canvas.height / zoom;
+      // Zombies turn towards whoever they are after
+      const targets = state.players.filter(p => p.condition === 'up').map(p => at(p));
+
+      const world = state.world;
+      const theme = FLOOR_THEMES[world.theme];
 
       ctx.save();
+      ctx.scale(zoom, zoom);
       ctx.translate(-camX, -camY);
 
-      // Render World Boundary
-      ctx.strokeStyle = '#334155';
+      // Render World Floor & Boundary
+      ctx.fillStyle = theme.floor;
+      ctx.fillRect(0, 0, world.width, world.height);
+      ctx.strokeStyle = theme.border;
       ctx.lineWidth = 5;
-      ctx.strokeRect(0,0, WORLD_WIDTH, WORLD_HEIGHT);
+      ctx.strokeRect(0,0, world.width, world.height);
 
       // Optimization: Render Grid only in viewport
-      ctx.strokeStyle = '#1e293b';
+      ctx.strokeStyle = theme.grid;
       ctx.lineWidth = 1;
       ctx.beginPath();
       
       const startGridX = Math.floor(camX / 50) * 50;
-      const endGridX = startGridX + canvas.width + 50;
+      const endGridX = startGridX + viewWidth + 50;
       const startGridY = Math.floor(camY / 50) * 50;
-      const endGridY = startGridY + canvas.height + 50;
+      const endGridY = startGridY + viewHeight + 50;
 
       for(let i=startGridX; i<=endGridX; i+=50) { 
-          if (i > WORLD_WIDTH) break;
+          if (i > world.width) break;
           ctx.moveTo(i, Math.max(0, startGridY)); 
-          ctx.lineTo(i, Math.min(WORLD_HEIGHT, endGridY)); 
+          ctx.lineTo(i, Math.min(world.height, endGridY)); 
       }
       for(let i=startGridY; i<=endGridY; i+=50) { 
-          if (i > WORLD_HEIGHT) break;
+          if (i > world.height) break;
           ctx.moveTo(Math.max(0, startGridX), i); 
-          ctx.lineTo(Math.min(WORLD_WIDTH, endGridX), i); 
+          ctx.lineTo(Math.min(world.width, endGridX), i); 
       }
       ctx.stroke();
 
+      // Obstacles
+      state.obstacles.forEach(o => {
+          if (o.x + o.width < camX || o.x > camX + viewWidth ||
+              o.y + o.height < camY || o.y > camY + viewHeight) return;
+
+          if (o.kind === 'building') {
+              ctx.fillStyle = '#1e293b';
+              ctx.fillRect(o.x, o.y, o.width, o.height);
+              ctx.strokeStyle = '#475569';
+              ctx.lineWidth = 3;
+              ctx.strokeRect(o.x, o.y, o.width, o.height);
+              // Roof ridge
+              ctx.beginPath();
+              ctx.moveTo(o.x, o.y);
+              ctx.lineTo(o.x + o.width, o.y + o.height);
+              ctx.moveTo(o.x + o.width, o.y);
+              ctx.lineTo(o.x, o.y + o.height);
+              ctx.lineWidth = 1;
+              ctx.stroke();
+          } else if (o.kind === 'wall') {
+              ctx.fillStyle = '#64748b';
+              ctx.fillRect(o.x, o.y, o.width, o.height);
+          } else if (o.kind === 'car') {
+              ctx.fillStyle = '#7f1d1d';
+              ctx.fillRect(o.x, o.y, o.width, o.height);
+              // Windshield along the long side
+              ctx.fillStyle = '#0f172a';
+              if (o.width > o.height) {
+                  ctx.fillRect(o.x + o.width * 0.3, o.y + 5, o.width * 0.4, o.height - 10);
+              } else {
+                  ctx.fillRect(o.x + 5, o.y + o.height * 0.3, o.width - 10, o.height * 0.4);
+              }
+          }
+      });
+
       // Acid Pools
       state.acidPools.forEach(p => {
           ctx.fillStyle = 'rgba(190, 242, 100, 0.4)';
@@ -836,114 +690,180 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
           ctx.stroke();
       });
 
-      // Ammo Drops
-      state.ammoDrops.forEach(d => {
+      // Fire Zones
+      state.fireZones.forEach(f => {
+          const flicker = 0.85 + Math.sin(now / 60 + f.x) * 0.15;
+          const fade = Math.min(1, (f.duration - (now - f.creationTime)) / 1000);
+          const gradient = ctx.createRadialGradient(f.x, f.y, 0, f.x, f.y, f.radius * flicker);
+          gradient.addColorStop(0, `rgba(253, 224, 71, ${0.6 * fade})`);
+          gradient.addColorStop(0.5, `rgba(249, 115, 22, ${0.45 * fade})`);
+          gradient.addColorStop(1, 'rgba(220, 38, 38, 0)');
+          ctx.fillStyle = gradient;
+          ctx.beginPath();
+          ctx.arc(f.x, f.y, f.radius, 0, Math.PI * 2);
+          ctx.fill();
+      });
+
+      // Pickups
+      state.pickups.forEach(p => {
+          if (!pickupVisible(p.expiresAt, now)) return;
+          const color = getPickupColor(p);
           ctx.save();
-          ctx.translate(d.x, d.y);
-          const offset = Math.sin(now / 200) * 3;
-          ctx.translate(0, offset);
-          ctx.fillStyle = '#047857';
-          ctx.fillRect(-10, -10, 20, 20);
-          ctx.strokeStyle = '#34d399';
-          ctx.strokeRect(-10, -10, 20, 20);
-          ctx.fillStyle = 'white';
-          ctx.font = '12px monospace';
+          ctx.translate(p.x, p.y + Math.sin(now / 200) * 3);
+          ctx.lineWidth = 2;
+          ctx.strokeStyle = color;
           ctx.textAlign = 'center';
-          ctx.fillText('A', 0, 4);
+          switch (p.kind) {
+              case 'ammo':
+                  ctx.fillStyle = '#047857';
+                  ctx.fillRect(-10, -10, 20, 20);
+                  ctx.strokeStyle = '#34d399';
+                  ctx.lineWidth = 1;
+                  ctx.strokeRect(-10, -10, 20, 20);
+                  ctx.fillStyle = 'white';
+                  ctx.font = '12px monospace';
+                  ctx.fillText('A', 0, 4);
+                  break;
+              case 'medkit':
+                  ctx.fillStyle = '#f8fafc';
+                  ctx.fillRect(-10, -10, 20, 20);
+                  ctx.strokeRect(-10, -10, 20, 20);
+                  ctx.fillStyle = color;
+                  ctx.fillRect(-2.5, -7, 5, 14);
+                  ctx.fillRect(-7, -2.5, 14, 5);
+                  break;
+              case 'armor':
+                  ctx.fillStyle = '#1e3a8a';
+                  ctx.beginPath();
+                  ctx.moveTo(0, -12);
+                  ctx.lineTo(10, -7);
+                  ctx.lineTo(8, 6);
+                  ctx.lineTo(0, 12);
+                  ctx.lineTo(-8, 6);
+                  ctx.lineTo(-10, -7);
+                  ctx.closePath();
+                  ctx.fill();
+                  ctx.stroke();
+                  break;
+              case 'weapon': {
+                  const weapon = getWeapon(p.weapon);
+                  ctx.fillStyle = '#44403c';
+                  ctx.fillRect(-14, -11, 28, 22);
+                  ctx.strokeRect(-14, -11, 28, 22);
+                  ctx.fillStyle = color;
+                  ctx.font = 'bold 9px monospace';
+                  ctx.fillText(weapon.name.en.slice(0, 3).toUpperCase(), 0, 3);
+                  break;
+              }
+              case 'throwable':
+                  ctx.fillStyle = p.type === 'grenade' ? '#4d7c0f' : '#b45309';
+                  ctx.beginPath();
+                  ctx.arc(0, 0, p.radius, 0, Math.PI * 2);
+                  ctx.fill();
+                  ctx.stroke();
+                  ctx.fillStyle = 'white';
+                  ctx.font = 'bold 10px monospace';
+                  ctx.fillText(p.type === 'grenade' ? 'G' : 'M', 0, 4);
+                  break;
+              case 'powerUp':
+                  ctx.fillStyle = color;
+                  ctx.shadowColor = color;
+                  ctx.shadowBlur = 15;
+                  ctx.rotate(now / 400);
+                  ctx.beginPath();
+                  ctx.moveTo(0, -p.radius);
+                  ctx.lineTo(p.radius, 0);
+                  ctx.lineTo(0, p.radius);
+                  ctx.lineTo(-p.radius, 0);
+                  ctx.closePath();
+                  ctx.fill();
+                  break;
+          }
           ctx.restore();
       });
 
-      // Player
-      ctx.save();
-      ctx.translate(state.player.x, state.player.y);
-      ctx.rotate(state.player.angle);
-      ctx.fillStyle = state.player.color;
-      ctx.shadowColor = state.player.color;
-      ctx.shadowBlur = 15;
-      ctx.beginPath();
-      ctx.arc(0, 0, state.player.radius, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.fillStyle = '#94a3b8';
-      ctx.fillRect(0, -4, 25, 8);
-      ctx.restore();
-
-      // Reload Bar
-      if (state.player.isReloading) {
+      // Players. Downed ones lie dimmed inside the revive circle, which fills as a teammate
+      // revives them; the dead stay as a grey mark.
+      state.players.forEach(p => {
+          const player = at(p);
           ctx.save();
-          ctx.translate(state.player.x, state.player.y - 30);
-          ctx.fillStyle = 'black';
-          ctx.fillRect(-20, 0, 40, 6);
-          ctx.fillStyle = '#fbbf24';
-          ctx.fillRect(-20, 0, 40 * state.player.reloadProgress, 6);
+          ctx.translate(player.x, player.y);
+          if (p.condition === 'dead') {
+              ctx.globalAlpha = 0.4;
+              ctx.fillStyle = '#475569';
+              ctx.beginPath();
+              ctx.arc(0, 0, p.radius, 0, Math.PI * 2);
+              ctx.fill();
+              ctx.restore();
+              return;
+          }
+          if (p.condition === 'downed') {
+              const reach = REVIVE_RADIUS + p.radius * 2;
+              ctx.strokeStyle = p.color;
+              ctx.lineWidth = 2;
+              ctx.globalAlpha = 0.3 + Math.abs(Math.sin(now / 300)) * 0.3;
+              ctx.beginPath();
+              ctx.arc(0, 0, reach, 0, Math.PI * 2);
+              ctx.stroke();
+              if (p.reviveProgress > 0) {
+                  ctx.globalAlpha = 1;
+                  ctx.strokeStyle = '#22c55e';
+                  ctx.lineWidth = 4;
+                  ctx.beginPath();
+                  ctx.arc(0, 0, reach, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * p.reviveProgress);
+                  ctx.stroke();
+              }
+              ctx.globalAlpha = 0.5;
+          }
+          drawStatusEffects(ctx, p, now);
+          if (now < p.invulnerableUntil && Math.floor(now / 80) % 2 === 0) ctx.globalAlpha = 0.4; // i-frames
+          ctx.rotate(p.angle);
+          ctx.fillStyle = p.color;
+          ctx.shadowColor = p.color;
+          ctx.shadowBlur = 15;
+          ctx.beginPath();
+          ctx.arc(0, 0, p.radius, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillStyle = '#94a3b8';
+          ctx.fillRect(0, -4, 25, 8);
           ctx.restore();
-      }
+
+          // Reload Bar
+          if (p.isReloading) {
+              ctx.save();
+              ctx.translate(player.x, player.y - 30);
+              ctx.fillStyle = 'black';
+              ctx.fillRect(-20, 0, 40, 6);
+              ctx.fillStyle = '#fbbf24';
+              ctx.fillRect(-20, 0, 40 * p.reloadProgress, 6);
+              ctx.restore();
+          }
+      });
 
       // Zombies
       state.zombies.forEach(z => {
+        const pos = at(z);
         // Optimization: Don't render far offscreen zombies
-        if (z.x < camX - 100 || z.x > camX + canvas.width + 100 ||
-            z.y < camY - 100 || z.y > camY + canvas.height + 100) return;
+        if (pos.x < camX - 100 || pos.x > camX + viewWidth + 100 ||
+            pos.y < camY - 100 || pos.y > camY + viewHeight + 100) return;
 
         ctx.save();
-        ctx.translate(z.x, z.y);
-        const zAngle = Math.atan2(state.player.y - z.y, state.player.x - z.x);
-        ctx.rotate(zAngle);
+        ctx.translate(pos.x, pos.y);
+        drawStatusEffects(ctx, z, now);
+        const target = targets.reduce<{ x: number; y: number } | null>((best, p) =>
+          !best || Math.hypot(p.x - pos.x, p.y - pos.y) < Math.hypot(best.x - pos.x, best.y - pos.y) ? p : best, null);
+        if (target) ctx.rotate(Math.atan2(target.y - pos.y, target.x - pos.x));
 
         ctx.fillStyle = z.color;
         ctx.shadowColor = z.color;
         ctx.shadowBlur = 5;
         
-        if (z.type === 'walker') {
-          ctx.fillRect(-z.radius, -z.radius, z.radius * 2, z.radius * 2);
-        } else if (z.type === 'runner') {
-          ctx.beginPath();
-          ctx.moveTo(z.radius, 0);
-          ctx.lineTo(-z.radius, z.radius);
-          ctx.lineTo(-z.radius, -z.radius);
-          ctx.fill();
-        } else if (z.type === 'tank') {
-           ctx.beginPath();
-           ctx.arc(0, 0, z.radius, 0, Math.PI*2);
-           ctx.fill();
-           ctx.strokeStyle = '#000';
-           ctx.lineWidth = 2;
-           ctx.stroke();
-        } else if (z.type === 'exploder') {
-            ctx.beginPath();
-            ctx.arc(0, 0, z.radius, 0, Math.PI*2);
-            ctx.fill();
-            ctx.fillStyle = `rgba(255, 255, 255, ${Math.abs(Math.sin(now / 200)) * 0.5})`;
-            ctx.beginPath();
-            ctx.arc(0, 0, z.radius * 0.6, 0, Math.PI*2);
-            ctx.fill();
-        } else if (z.type === 'acid') {
-            ctx.beginPath();
-            ctx.moveTo(z.radius, 0);
-            ctx.lineTo(-z.radius/2, z.radius);
-            ctx.lineTo(-z.radius/2, -z.radius);
-            ctx.fill();
-            ctx.strokeStyle = '#bef264';
-            ctx.stroke();
-        } else if (z.type === 'boss') {
-           ctx.shadowColor = '#dc2626';
-           ctx.shadowBlur = 20;
-           ctx.beginPath();
-           ctx.arc(0, 0, z.radius, 0, Math.PI*2);
-           ctx.fill();
-           ctx.strokeStyle = '#dc2626';
-           ctx.lineWidth = 4;
-           ctx.stroke();
-           ctx.fillStyle = 'black';
-           ctx.beginPath();
-           ctx.arc(-15, -15, 8, 0, Math.PI*2);
-           ctx.arc(15, -15, 8, 0, Math.PI*2);
-           ctx.fill();
-        }
+        getArchetype(z.type).draw(ctx, z, now);
         
         const hpPct = z.hp / z.maxHp;
         ctx.fillStyle = '#ef4444';
-        const barWidth = z.type === 'boss' ? 60 : 20;
-        const barOffset = z.type === 'boss' ? 20 : 10;
+        const barWidth = Math.max(20, z.radius);
+        const barOffset = Math.max(10, z.radius / 3);
         ctx.fillRect(-barWidth/2, -z.radius - barOffset, barWidth, 4);
         ctx.fillStyle = '#22c55e';
         ctx.fillRect(-barWidth/2, -z.radius - barOffset, barWidth * hpPct, 4);
@@ -951,28 +871,82 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
         ctx.restore();
       });
 
+      // Throwables: shadow on the ground, the item raised by its arc height
+      state.throwables.forEach(t => {
+          const pos = at(t);
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+          ctx.beginPath();
+          ctx.ellipse(pos.x, pos.y, 6, 3, 0, 0, Math.PI * 2);
+          ctx.fill();
+
+          const fuseBlink = t.type === 'grenade' && t.landed && Math.floor(now / 100) % 2 === 0;
+          ctx.fillStyle = fuseBlink ? '#ef4444' : t.type === 'grenade' ? '#65a30d' : '#d97706';
+          ctx.beginPath();
+          ctx.arc(pos.x, pos.y - t.height, 6, 0, Math.PI * 2);
+          ctx.fill();
+          if (t.type === 'molotov') {
+              ctx.fillStyle = '#fde047';
+              ctx.beginPath();
+              ctx.arc(pos.x + 3, pos.y - t.height - 6, 3, 0, Math.PI * 2);
+              ctx.fill();
+          }
+      });
+
+      // Enemy Projectiles: lobbed globs get a ground shadow that marks where they will land
+      state.enemyProjectiles.forEach(p => {
+          const kind = getEnemyProjectile(p.type);
+          const pos = at(p);
+          if (kind.lobbed) {
+              ctx.strokeStyle = 'rgba(163, 230, 53, 0.4)';
+              ctx.lineWidth = 1;
+              ctx.beginPath();
+              ctx.arc(p.target.x, p.target.y, p.radius + 4, 0, Math.PI * 2);
+              ctx.stroke();
+              ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+              ctx.beginPath();
+              ctx.ellipse(pos.x, pos.y, p.radius, p.radius / 2, 0, 0, Math.PI * 2);
+              ctx.fill();
+          }
+          ctx.save();
+          ctx.fillStyle = kind.color;
+          ctx.shadowColor = kind.color;
+          ctx.shadowBlur = 10;
+          ctx.beginPath();
+          ctx.arc(pos.x, pos.y - p.height, p.radius, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.restore();
+      });
+
       // Bullets
-      ctx.fillStyle = '#facc15';
-      ctx.shadowColor = '#facc15';
       ctx.shadowBlur = 5;
       state.bullets.forEach(b => {
+        const pos = at(b);
+        ctx.fillStyle = b.color;
+        ctx.shadowColor = b.color;
         ctx.beginPath();
-        ctx.arc(b.x, b.y, b.radius, 0, Math.PI * 2);
+        ctx.arc(pos.x, pos.y, b.radius, 0, Math.PI * 2);
         ctx.fill();
       });
 
       // Particles
       state.particles.forEach(p => {
-        ctx.globalAlpha = p.life;
+        const pos = at(p);
+        ctx.globalAlpha = Math.max(0, p.life);
         ctx.fillStyle = p.color;
         ctx.beginPath();
-        ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+        ctx.arc(pos.x, pos.y, p.size, 0, Math.PI * 2);
         ctx.fill();
         ctx.globalAlpha = 1.0;
       });
       
       ctx.restore(); // End Camera Transform
 
+      const sinceHit = now - lastHit;
+      if (sinceHit < HIT_FLASH_TIME) {
+        ctx.fillStyle = `rgba(220, 38, 38, ${0.25 * (1 - sinceHit / HIT_FLASH_TIME)})`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+
       animationFrameId = requestAnimationFrame(render);
     };
 
@@ -982,16 +956,161 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
         window.removeEventListener('resize', handleResize);
         cancelAnimationFrame(animationFrameId);
     };
-  }, [gameState, onGameOver, onWaveChange]);
+  }, [isRunning, isReplay, choosePerk, runConfig, replay, resumeRun, tickRate]);
+
+  // --- Saving ---
+
+  // Stores the live run so it can be continued from the menu, even after the tab is closed
+  const saveProgress = useCallback(() => {
+      const state = gameStateRef.current;
+      const recorder = recorderRef.current;
+      if (!state || state.isGameOver || !recorder) return;
+      saveRun(createSnapshot(state, recorder.replay));
+  }, []);
 
-  // Reset start time when going back to Menu
+  useEffect(() => {
+      if (gameState === GameState.PAUSED) saveProgress();
+  }, [gameState, saveProgress]);
+
+  useEffect(() => {
+      const handleVisibilityChange = () => {
+          if (document.visibilityState === 'hidden') saveProgress();
+      };
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [saveProgress]);
+
+  // Discard the run when going back to Menu (a saved copy stays in storage)
   useEffect(() => {
       if (gameState === GameState.MENU) {
-          gameStateRef.current.startTime = 0;
+          gameStateRef.current = null;
       }
   }, [gameState]);
 
-  if (gameState !== GameState.PLAYING && gameState !== GameState.PAUSED) return null;
+  // Health, power-ups and ammo for one player, side by side with the others in co-op
+  const renderPlayerHud = (member: Hud['players'][number], index: number) => {
+    const coop = players.length > 1;
+    return (
+      <>
+        {/* Health */}
+        <div className="bg-slate-900/80 backdrop-blur border border-slate-700 p-4 rounded-lg shadow-lg min-w-[200px]">
+           <div className="flex items-center justify-between mb-2">
+               {coop ? (
+                   <span className="text-sm font-bold" style={{ color: member.color }}>{t.player}{index + 1}</span>
+               ) : (
+                   <span className="text-slate-400 text-sm font-bold">HEALTH</span>
+               )}
+               {member.condition === 'up' && (
+                   <div className="flex items-center gap-1">
+                       <Heart className={`w-4 h-4 ${member.hp < 30 ? 'text-red-500 animate-pulse' : 'text-green-500'}`} fill="currentColor" />
+                       <span className={`font-mono text-lg ${member.hp < 30 ? 'text-red-500' : 'text-white'}`}>{member.hp}%</span>
+                   </div>
+               )}
+               {member.condition === 'downed' && (
+                   <span className="font-mono text-sm text-red-400 font-bold animate-pulse">
+                       {member.reviveProgress > 0
+                           ? `${t.reviving} ${Math.floor(member.reviveProgress * 100)}%`
+                           : `${t.down} ${member.bleedOutSeconds}s`}
+                   </span>
+               )}
+               {member.condition === 'dead' && <span className="font-mono text-sm text-slate-500 font-bold">{t.dead}</span>}
+           </div>
+           <div className="w-full bg-slate-800 h-2 rounded-full overflow-hidden">
+               <div 
+                   className={`h-full transition-all duration-300 ${member.hp < 30 ? 'bg-red-600' : 'bg-green-500'}`} 
+                   style={{ width: `${member.hp}%` }}
+               />
+           </div>
+           {member.armor > 0 && (
+               <div className="flex items-center gap-2 mt-2">
+                   <Shield className="w-3 h-3 text-blue-400" fill="currentColor" />
+                   <div className="flex-1 bg-slate-800 h-1.5 rounded-full overflow-hidden">
+                       <div className="h-full bg-blue-400 transition-all duration-300" style={{ width: `${(member.armor / member.maxArmor) * 100}%` }} />
+                   </div>
+                   <span className="font-mono text-xs text-blue-300">{member.armor}</span>
+               </div>
+           )}
+           {member.effects.length > 0 && (
+               <div className="flex flex-wrap gap-1.5 mt-2">
+                   {member.effects.map(effect => {
+                       const kind = STATUS_EFFECTS[effect.type];
+                       const Icon = STATUS_ICONS[effect.type];
+                       const left = Math.max(0, effect.expiresAt - hud.time);
+                       return (
+                           <div key={effect.type} title={kind.name[lang]} className="flex items-center gap-1 bg-slate-800 px-1.5 py-0.5 rounded text-xs font-mono" style={{ color: kind.color }}>
+                               <Icon className="w-3 h-3" />
+                               {effect.stacks > 1 && <span>x{effect.stacks}</span>}
+                               <span>{(left / 1000).toFixed(1)}s</span>
+                           </div>
+                       );
+                   })}
+               </div>
+           )}
+        </div>
+
+        {/* Active Power-ups */}
+        {member.powerUps.map(active => {
+            const powerUp = POWER_UPS[active.type];
+            const left = Math.max(0, active.expiresAt - hud.time);
+            return (
+                <div key={active.type} className="bg-slate-900/80 backdrop-blur border border-slate-700 px-3 py-2 rounded-lg shadow-lg min-w-[200px]">
+                    <div className="flex items-center justify-between text-xs font-bold mb-1" style={{ color: powerUp.color }}>
+                        <span>{powerUp.name[lang]}</span>
+                        <span className="font-mono">{(left / 1000).toFixed(1)}s</span>
+                    </div>
+                    <div className="w-full bg-slate-800 h-1 rounded-full overflow-hidden">
+                        <div className="h-full" style={{ width: `${(left / active.duration) * 100}%`, backgroundColor: powerUp.color }} />
+                    </div>
+                </div>
+            );
+        })}
+
+        {/* Ammo Display */}
+        <div className={`bg-slate-900/80 backdrop-blur border p-4 rounded-lg shadow-lg min-w-[200px] transition-colors ${member.ammo.current === 0 ? 'border-red-500 bg-red-900/20' : 'border-slate-700'}`}>
+           <div className="flex items-center justify-between mb-2">
+               <span className="text-slate-300 text-sm font-bold flex items-center gap-2">
+                   <WeaponIcon weapon={member.ammo.weapon} className="w-10 h-5 text-yellow-500" />
+                   {getWeapon(member.ammo.weapon).name[lang]}
+               </span>
+               <div className="text-right">
+                   {member.ammo.reloading ? (
+                       <span className="text-yellow-500 font-bold animate-pulse text-sm">{t.reloading}</span>
+                   ) : (
+                       <span className={`font-mono text-2xl font-bold ${member.ammo.current === 0 ? 'text-red-500' : 'text-white'}`}>
+                           {member.ammo.current} <span className="text-slate-500 text-lg">/ {member.ammo.total}</span>
+                       </span>
+                   )}
+               </div>
+           </div>
+           <div className="flex gap-1 mb-1">
+               {member.ammo.slots.map((weapon, i) => (
+                   <div
+                       key={i}
+                       className={`flex-1 flex items-center gap-1 px-1 py-0.5 rounded border text-[10px] font-mono ${i === member.ammo.activeSlot ? 'border-yellow-500/70 text-yellow-400 bg-yellow-500/10' : 'border-slate-700 text-slate-500'}`}
+                   >
+                       <span>{i + 1}</span>
+                       <WeaponIcon weapon={weapon} className="w-5 h-2.5" />
+                   </div>
+               ))}
+           </div>
+           <div className="flex items-center justify-between text-xs font-mono text-slate-400 mb-1">
+               <span className="flex items-center gap-1">
+                   {member.throwable.type === 'grenade' ? <Bomb className="w-3 h-3 text-lime-400" /> : <Flame className="w-3 h-3 text-orange-400" />}
+                   {t[member.throwable.type]} {index === 0 && <span className="text-slate-600">[G]</span>}
+               </span>
+               <span className={member.throwable.count === 0 ? 'text-slate-600' : 'text-white font-bold'}>x{member.throwable.count}</span>
+           </div>
+           {member.ammo.current < 10 && !member.ammo.reloading && (
+               <div className="text-red-500 text-xs font-bold text-center animate-bounce">
+                  {member.ammo.current === 0 ? t.reloading : t.low}
+               </div>
+           )}
+        </div>
+      </>
+    );
+  };
+
+  if (!isRunning) return null;
 
   return (
     <>
@@ -1000,46 +1119,29 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
         className="block fixed top-0 left-0 cursor-crosshair z-0 touch-none"
       />
       
-      {/* HUD - Stats */}
-      <div className="fixed top-4 left-4 z-10 flex flex-col gap-2 pointer-events-none">
-         {/* Health */}
-         <div className="bg-slate-900/80 backdrop-blur border border-slate-700 p-4 rounded-lg shadow-lg min-w-[200px]">
-            <div className="flex items-center justify-between mb-2">
-                <span className="text-slate-400 text-sm font-bold">HEALTH</span>
-                <div className="flex items-center gap-1">
-                    <Heart className={`w-4 h-4 ${playerHp < 30 ? 'text-red-500 animate-pulse' : 'text-green-500'}`} fill="currentColor" />
-                    <span className={`font-mono text-lg ${playerHp < 30 ? 'text-red-500' : 'text-white'}`}>{playerHp}%</span>
-                </div>
+      {/* HUD - Boss Health */}
+      {bossState && (
+        <div className="fixed top-16 left-1/2 -translate-x-1/2 z-10 w-[min(90vw,560px)] pointer-events-none">
+            <div className="flex items-end justify-between mb-1 px-1">
+                <span className="font-creep text-2xl text-red-500 tracking-wider drop-shadow">{BOSS_VARIANTS[bossState.variant].name[lang]}</span>
+                <span className="font-mono text-xs text-red-300">{t.phase} {bossState.phase + 1}/{BOSS_VARIANTS[bossState.variant].phases.length}</span>
             </div>
-            <div className="w-full bg-slate-800 h-2 rounded-full overflow-hidden">
-                <div 
-                    className={`h-full transition-all duration-300 ${playerHp < 30 ? 'bg-red-600' : 'bg-green-500'}`} 
-                    style={{ width: `${playerHp}%` }}
-                />
+            <div className="relative w-full h-3 bg-slate-900/90 border border-red-900 rounded overflow-hidden">
+                <div className="h-full bg-gradient-to-r from-red-700 to-red-500 transition-all duration-200" style={{ width: `${(bossState.hp / bossState.maxHp) * 100}%` }} />
+                {/* Phase thresholds */}
+                {BOSS_VARIANTS[bossState.variant].phases.slice(1).map(phase => (
+                    <div key={phase.threshold} className="absolute top-0 h-full w-0.5 bg-black/70" style={{ left: `${phase.threshold * 100}%` }} />
+                ))}
             </div>
-         </div>
+        </div>
+      )}
 
-         {/* Ammo Display */}
-         <div className={`bg-slate-900/80 backdrop-blur border p-4 rounded-lg shadow-lg min-w-[200px] transition-colors ${ammoState.current === 0 ? 'border-red-500 bg-red-900/20' : 'border-slate-700'}`}>
-            <div className="flex items-center justify-between mb-2">
-                <span className="text-slate-400 text-sm font-bold flex items-center gap-1">
-                    <Zap className="w-4 h-4 text-yellow-500" /> {t.ammo}
-                </span>
-                <div className="text-right">
-                    {ammoState.reloading ? (
-                        <span className="text-yellow-500 font-bold animate-pulse text-sm">{t.reloading}</span>
-                    ) : (
-                        <span className={`font-mono text-2xl font-bold ${ammoState.current === 0 ? 'text-red-500' : 'text-white'}`}>
-                            {ammoState.current} <span className="text-slate-500 text-lg">/ {ammoState.total}</span>
-                        </span>
-                    )}
-                </div>
-            </div>
-            {ammoState.current < 10 && !ammoState.reloading && (
-                <div className="text-red-500 text-xs font-bold text-center animate-bounce">
-                   {ammoState.current === 0 ? t.reloading : t.low}
-                </div>
-            )}
+      {/* HUD - Stats */}
+      <div className="fixed top-4 left-4 z-10 flex flex-col gap-2 pointer-events-none">
+         <div className="flex gap-2 items-start">
+             {players.map((member, i) => (
+                 <div key={i} className="flex flex-col gap-2">{renderPlayerHud(member, i)}</div>
+             ))}
          </div>
 
          {/* Score */}
@@ -1050,21 +1152,69 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
              </div>
              <span className="font-mono text-xl text-yellow-400">{hudStats.score.toLocaleString()}</span>
          </div>
+
+         {players.length > 1 && padCount === 0 && gameState !== GameState.REPLAY && (
+             <div className="bg-slate-900/80 backdrop-blur border border-slate-700 px-3 py-2 rounded-lg shadow-lg text-[10px] text-yellow-400">{t.connectPad}</div>
+         )}
       </div>
 
       {/* HUD - Wave */}
       <div className="fixed top-4 right-4 z-10 pointer-events-none">
-        <div className={`bg-slate-900/80 backdrop-blur border p-4 rounded-lg shadow-lg transition-colors ${hudStats.wave % 10 === 0 ? 'border-red-500 shadow-red-900/50' : 'border-red-900/50'}`}>
+        <div className={`bg-slate-900/80 backdrop-blur border p-4 rounded-lg shadow-lg transition-colors min-w-[140px] ${waveState?.boss ? 'border-red-500 shadow-red-900/50' : 'border-red-900/50'}`}>
             <div className="flex flex-col items-center">
-                <span className={`font-creep text-3xl tracking-widest ${hudStats.wave % 10 === 0 ? 'text-red-500 animate-pulse' : 'text-red-500'}`}>
-                    {hudStats.wave % 10 === 0 ? (lang === 'es' ? 'JEFE' : 'BOSS') : (lang === 'es' ? 'RONDA' : 'WAVE')}
+                <span className={`font-creep text-3xl tracking-widest ${waveState?.boss ? 'text-red-500 animate-pulse' : 'text-red-500'}`}>
+                    {waveState?.boss ? (lang === 'es' ? 'JEFE' : 'BOSS') : (lang === 'es' ? 'RONDA' : 'WAVE')}
+                </span>
+                <span className="font-creep text-white text-5xl drop-shadow-lg">
+                    {hudStats.wave}
+                    {waveState?.finalWave !== undefined && <span className="text-2xl text-slate-400">/{waveState.finalWave}</span>}
                 </span>
-                <span className="font-creep text-white text-5xl drop-shadow-lg">{hudStats.wave}</span>
+                {waveState?.runSecondsLeft !== null && waveState?.runSecondsLeft !== undefined && (
+                    <span className={`font-mono text-lg font-bold ${waveState.runSecondsLeft <= 30 ? 'text-red-400 animate-pulse' : 'text-yellow-300'}`}>
+                        {Math.floor(waveState.runSecondsLeft / 60)}:{String(waveState.runSecondsLeft % 60).padStart(2, '0')}
+                    </span>
+                )}
+                {waveState?.phase === 'countdown' && (
+                    <span className="text-xs font-bold text-yellow-400 mt-1 animate-pulse">{t.startsIn} {waveState.secondsLeft}</span>
+                )}
+                {waveState?.phase === 'active' && (
+                    <div className="w-full mt-2">
+                        <div className="text-xs font-bold text-slate-300 text-center mb-1">
+                            <span className="font-mono text-white">{waveState.remaining}</span> {t.remaining}
+                        </div>
+                        <div className="w-full bg-slate-800 h-1.5 rounded-full overflow-hidden">
+                            <div className="h-full bg-red-500 transition-all duration-300" style={{ width: `${waveState.total > 0 ? Math.max(0, Math.min(1, 1 - waveState.remaining / waveState.total)) * 100 : 0}%` }} />
+                        </div>
+                    </div>
+                )}
+                {waveState?.phase === 'cleared' && (
+                    <span className="text-xs font-bold text-green-400 mt-1">{t.cleared}</span>
+                )}
+                {waveState?.phase === 'intermission' && (
+                    <span className="text-xs font-bold text-slate-300 mt-1">{t.nextWaveIn} {waveState.secondsLeft}s</span>
+                )}
             </div>
         </div>
       </div>
 
+      {/* Replay Controls */}
+      {gameState === GameState.REPLAY && (
+        <ReplayControls
+          tick={replayStatus.tick}
+          totalTicks={replayStatus.totalTicks}
+          tickRate={replay?.tickRate ?? tickRate}
+          paused={replayStatus.paused}
+          speed={replayStatus.speed}
+          onTogglePause={toggleReplayPause}
+          onSeek={seekReplay}
+          onSpeedChange={changeReplaySpeed}
+          onExit={onExitReplay}
+          lang={lang}
+        />
+      )}
+
       {/* Mobile Controls Overlay */}
+      {gameState !== GameState.REPLAY && (
       <div className="fixed inset-0 z-20 pointer-events-none">
           {/* Joystick Area - Left */}
           <div 
@@ -1090,7 +1240,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
             onMouseLeave={handleFireEnd}
           >
               <div className={`w-full h-full rounded-full border-4 flex items-center justify-center transition-all duration-100 ${isFiringRef.current ? 'bg-red-600/50 border-red-400 scale-95' : 'bg-red-900/30 border-red-600/40'}`}>
-                 {ammoState.current === 0 && !ammoState.reloading ? (
+                 {player.ammo.current === 0 && !player.ammo.reloading ? (
                      <span className="text-white font-bold text-xs">EMPTY</span>
                  ) : (
                      <Target className="w-10 h-10 text-white/80" />
@@ -1098,6 +1248,35 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
               </div>
           </div>
           
+          {/* Weapon Swap Button (Mobile) - Left of Fire Button */}
+          {player.ammo.slots.length > 1 && (
+          <div className="absolute bottom-16 right-40 pointer-events-auto">
+             <button 
+                onTouchStart={(e) => { e.preventDefault(); cycleWeapon(1); }}
+                onClick={() => cycleWeapon(1)}
+                className="bg-slate-800/80 border border-slate-600 text-white p-3 rounded-full shadow-lg active:scale-95 flex items-center gap-1"
+             >
+                <Repeat className="w-5 h-5" />
+                <WeaponIcon weapon={player.ammo.slots[(player.ammo.activeSlot + 1) % player.ammo.slots.length]} className="w-8 h-4" />
+             </button>
+          </div>
+          )}
+
+          {/* Throw Button (Mobile) - Above the Swap Button */}
+          <div className="absolute bottom-36 right-40 pointer-events-auto">
+             <button 
+                onTouchStart={(e) => { e.preventDefault(); queueThrow('auto'); }}
+                onClick={() => queueThrow('auto')}
+                disabled={player.throwable.count === 0}
+                className="relative bg-slate-800/80 border border-slate-600 text-white p-3 rounded-full shadow-lg active:scale-95 disabled:opacity-40"
+             >
+                {player.throwable.type === 'grenade' ? <Bomb className="w-6 h-6" /> : <Flame className="w-6 h-6" />}
+                <span className="absolute -top-1 -right-1 bg-orange-600 text-white text-[10px] font-bold rounded-full w-4 h-4 flex items-center justify-center">
+                    {player.throwable.count}
+                </span>
+             </button>
+          </div>
+
           {/* Reload Button (Mobile) - Top of Fire Button */}
           <div className="absolute bottom-40 right-16 pointer-events-auto">
              <button 
@@ -1105,10 +1284,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onGame
                 onClick={startReload}
                 className="bg-slate-800/80 border border-slate-600 text-white p-3 rounded-full shadow-lg active:scale-95"
              >
-                <Zap className={`w-6 h-6 ${ammoState.reloading ? 'animate-spin' : ''}`} />
+                <Zap className={`w-6 h-6 ${player.ammo.reloading ? 'animate-spin' : ''}`} />
              </button>
           </div>
       </div>
+      )}
     </>
   );
 };
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Play, Pause, X, Film } from 'lucide-react';
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  tickRate: number;
+  paused: boolean;
+  speed: number;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+  lang: 'es' | 'en';
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const translations = {
+    es: {
+        replay: "REPETICIÓN",
+        exit: "SALIR"
+    },
+    en: {
+        replay: "REPLAY",
+        exit: "EXIT"
+    }
+};
+
+const formatTime = (ticks: number, tickRate: number) => {
+  const seconds = Math.floor(ticks / tickRate);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  tick, totalTicks, tickRate, paused, speed, onTogglePause, onSeek, onSpeedChange, onExit, lang
+}) => {
+  const t = translations[lang];
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 w-[min(640px,90vw)] bg-slate-900/90 backdrop-blur border border-slate-700 rounded-xl shadow-2xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="flex items-center gap-2 text-red-500 font-bold text-sm tracking-widest">
+          <Film className="w-4 h-4" /> {t.replay}
+        </span>
+        <span className="font-mono text-xs text-slate-400">
+          {formatTime(tick, tickRate)} / {formatTime(totalTicks, tickRate)}
+        </span>
+      </div>
+
+      <input
+        type="range" min="0" max={totalTicks} value={tick}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-red-500"
+      />
+
+      <div className="flex items-center justify-between mt-3 gap-3">
+        <button
+          onClick={onTogglePause}
+          className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white p-2 rounded-full"
+        >
+          {paused ? <Play className="w-5 h-5 fill-current" /> : <Pause className="w-5 h-5 fill-current" />}
+        </button>
+
+        <div className="flex gap-1">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              className={`px-3 py-1 rounded font-mono text-xs border ${speed === s ? 'bg-red-600 border-red-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1 text-slate-400 hover:text-white text-sm font-bold"
+        >
+          <X className="w-4 h-4" /> {t.exit}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { DifficultyId, RunMode, RunRecord } from '../types';
+import { getMap } from '../game/maps';
+import { DIFFICULTIES, DIFFICULTY_IDS, MUTATORS } from '../game/difficulty';
+import { MAX_PLAYERS } from '../game/constants';
+import { Trophy } from 'lucide-react';
+
+interface RunHistoryProps {
+  history: RunRecord[];
+  highlightId?: string; // Run to mark, e.g. the one that just ended
+  lang: 'es' | 'en';
+}
+
+type SortKey = 'score' | 'wave' | 'kills' | 'date';
+type ModeFilter = RunMode | 'all';
+type DifficultyFilter = DifficultyId | 'all';
+type PlayersFilter = number | 'all';
+
+const SORT_KEYS: SortKey[] = ['score', 'wave', 'kills', 'date'];
+const MODE_FILTERS: ModeFilter[] = ['all', 'standard', 'daily', 'timed', 'bossRush', 'hardcore'];
+const DIFFICULTY_FILTERS: DifficultyFilter[] = ['all', ...DIFFICULTY_IDS];
+const PLAYERS_FILTERS: PlayersFilter[] = ['all', ...Array.from({ length: MAX_PLAYERS }, (_, i) => i + 1)];
+
+const translations = {
+    es: {
+        sortBy: "Ordenar",
+        score: "Puntos",
+        wave: "Ronda",
+        kills: "Bajas",
+        date: "Fecha",
+        accuracy: "Prec.",
+        time: "Tiempo",
+        map: "Mapa",
+        all: "Todos",
+        standard: "Infinito",
+        daily: "Diario",
+        timed: "Contrarreloj",
+        bossRush: "Jefes",
+        hardcore: "Extremo",
+        empty: "Aún no hay partidas registradas."
+    },
+    en: {
+        sortBy: "Sort",
+        score: "Score",
+        wave: "Wave",
+        kills: "Kills",
+        date: "Date",
+        accuracy: "Acc.",
+        time: "Time",
+        map: "Map",
+        all: "All",
+        standard: "Endless",
+        daily: "Daily",
+        timed: "Timed",
+        bossRush: "Boss Rush",
+        hardcore: "Hardcore",
+        empty: "No runs recorded yet."
+    }
+};
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const compare = (key: SortKey) => (a: RunRecord, b: RunRecord) =>
+  key === 'date' ? b.date.localeCompare(a.date) : b[key] - a[key] || b.score - a.score;
+
+const RunHistory: React.FC<RunHistoryProps> = ({ history, highlightId, lang }) => {
+  const t = translations[lang];
+  const [sortKey, setSortKey] = useState<SortKey>('score');
+  const [mode, setMode] = useState<ModeFilter>('all');
+  const [difficulty, setDifficulty] = useState<DifficultyFilter>('all');
+  const [players, setPlayers] = useState<PlayersFilter>('all');
+
+  // Records from before difficulties or co-op existed were Normal and solo
+  const runs = history
+    .filter(record => mode === 'all' || record.mode === mode)
+    .filter(record => difficulty === 'all' || (record.difficulty ?? 'normal') === difficulty)
+    .filter(record => players === 'all' || (record.players ?? 1) === players)
+    .sort(compare(sortKey));
+
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs font-bold border transition-colors ${
+      active ? 'bg-red-600 border-red-500 text-white' : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-white'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {MODE_FILTERS.map(filter => (
+            <button key={filter} onClick={() => setMode(filter)} className={chip(mode === filter)}>
+              {t[filter]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-slate-500 mr-1">{t.sortBy}</span>
+          {SORT_KEYS.map(key => (
+            <button key={key} onClick={() => setSortKey(key)} className={chip(sortKey === key)}>
+              {t[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {DIFFICULTY_FILTERS.map(filter => (
+            <button key={filter} onClick={() => setDifficulty(filter)} className={chip(difficulty === filter)}>
+              {filter === 'all' ? t.all : DIFFICULTIES[filter].name[lang]}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {PLAYERS_FILTERS.map(filter => (
+            <button key={filter} onClick={() => setPlayers(filter)} className={chip(players === filter)}>
+              {filter === 'all' ? t.all : `${filter}P`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="text-center text-slate-500 text-sm py-6">{t.empty}</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-sm font-mono">
+            <thead className="text-xs text-slate-500 sticky top-0 bg-slate-800">
+              <tr className="text-left">
+                <th className="py-1 pr-2">#</th>
+                <th className="py-1 pr-2"></th>
+                <th className="py-1 pr-2 text-right">{t.score}</th>
+                <th className="py-1 pr-2 text-right">{t.wave}</th>
+                <th className="py-1 pr-2 text-right">{t.kills}</th>
+                <th className="py-1 pr-2 text-right">{t.accuracy}</th>
+                <th className="py-1 pr-2 text-right">{t.time}</th>
+                <th className="py-1 pr-2">{t.map}</th>
+                <th className="py-1">{t.date}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((record, i) => (
+                <tr
+                  key={record.id}
+                  className={`border-t border-slate-700/50 ${record.id === highlightId ? 'bg-yellow-500/10 text-yellow-300' : 'text-slate-300'}`}
+                >
+                  <td className="py-1 pr-2 text-slate-500">
+                    {i === 0 && sortKey === 'score' ? <Trophy className="w-3 h-3 text-yellow-400" /> : i + 1}
+                  </td>
+                  <td className="py-1 pr-2 font-bold">
+                    {record.initials}
+                    {record.mode === 'daily' && <span className="ml-1 text-[10px] text-amber-400">{t.daily}</span>}
+                    {record.mode !== 'daily' && record.mode !== 'standard' && (
+                      <span className="ml-1 text-[10px] text-sky-400">{t[record.mode]}</span>
+                    )}
+                    {record.difficulty && record.difficulty !== 'normal' && (
+                      <span className="ml-1 text-[10px] text-red-400">{DIFFICULTIES[record.difficulty].name[lang]}</span>
+                    )}
+                    {record.mutators && record.mutators.length > 0 && (
+                      <span
+                        className="ml-1 text-[10px] text-purple-400"
+                        title={record.mutators.map(id => MUTATORS[id].name[lang]).join(', ')}
+                      >
+                        +{record.mutators.length}
+                      </span>
+                    )}
+                    {record.players !== undefined && record.players > 1 && (
+                      <span className="ml-1 text-[10px] text-emerald-400">{record.players}P</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right text-yellow-400">{record.score.toLocaleString()}</td>
+                  <td className="py-1 pr-2 text-right">{record.wave}</td>
+                  <td className="py-1 pr-2 text-right">{record.kills}</td>
+                  <td className="py-1 pr-2 text-right">{record.accuracy}%</td>
+                  <td className="py-1 pr-2 text-right">{formatDuration(record.timeSurvived)}</td>
+                  <td className="py-1 pr-2 text-slate-400">{getMap(record.mapId).name[lang]}</td>
+                  <td className="py-1 text-slate-500">{new Date(record.date).toLocaleDateString(lang)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunHistory;
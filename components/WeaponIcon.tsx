@@ -0,0 +1,24 @@
+import React from 'react';
+import { WeaponId } from '../types';
+
+interface WeaponIconProps {
+  weapon: WeaponId;
+  className?: string;
+}
+
+// Side-on silhouettes on a 32x16 grid, barrel pointing right
+const SHAPES: Record<WeaponId, string> = {
+  pistol: 'M9 5h14v4H15l-1 6h-4l1-6H9z',
+  shotgun: 'M1 7h7l2-2h21v3H12l-2 2H8l-3 4H1l2-4H1z',
+  smg: 'M4 5h20v2h4v2h-4v1H17l-1 5h-3l1-5h-3v4H8V9H4z',
+  rifle: 'M0 8l4-3h22v2h6v2h-6v1H19l-1 4h-3l1-4h-4L7 12H0z',
+  sniper: 'M0 9l4-3h10V4h6v2h12v2H20v2H13l-1 4H9l1-4H6L2 12H0zM14 2h6v1h-6z'
+};
+
+const WeaponIcon: React.FC<WeaponIconProps> = ({ weapon, className }) => (
+  <svg viewBox="0 0 32 16" className={className} fill="currentColor" aria-hidden="true">
+    <path d={SHAPES[weapon]} />
+  </svg>
+);
+
+export default WeaponIcon;
@@ -0,0 +1,65 @@
+import { BossAttackId, BossVariant, BossVariantId, Zombie } from '../types';
+import { BOSS_WAVE_INTERVAL } from './constants';
+
+// Boss fights: each variant goes through health-threshold phases that unlock faster and
+// nastier attacks. Every attack is telegraphed for `windUp` ms before it goes off.
+
+export const BOSS_ATTACKS = {
+  charge: { windUp: 900, duration: 800, speed: 14, damage: 30, knockback: 18 },
+  slam: { windUp: 1100, radius: 180, damage: 35, knockback: 12 },
+  summon: { windUp: 800, count: 4 },
+  acidSpray: { windUp: 700, count: 7, spread: 0.9 } // Spit fanned over `spread` radians
+} satisfies Record<BossAttackId, { windUp: number; [param: string]: number }>;
+
+export const BOSS_VARIANTS: Record<BossVariantId, BossVariant> = {
+  brute: {
+    id: 'brute',
+    name: { es: 'El Bruto', en: 'The Brute' },
+    color: '#0f0f0f',
+    hpMultiplier: 1,
+    phases: [
+      { threshold: 1, attacks: ['charge'], cooldown: 3500, speedMultiplier: 1 },
+      { threshold: 0.6, attacks: ['charge', 'slam'], cooldown: 2800, speedMultiplier: 1.2 },
+      { threshold: 0.3, attacks: ['charge', 'slam'], cooldown: 1800, speedMultiplier: 1.4 }
+    ]
+  },
+  broodmother: {
+    id: 'broodmother',
+    name: { es: 'La Madre', en: 'Broodmother' },
+    color: '#365314',
+    hpMultiplier: 0.9,
+    phases: [
+      { threshold: 1, attacks: ['summon', 'acidSpray'], cooldown: 4000, speedMultiplier: 0.9 },
+      { threshold: 0.5, attacks: ['summon', 'acidSpray'], cooldown: 2800, speedMultiplier: 1 },
+      { threshold: 0.25, attacks: ['summon', 'acidSpray', 'slam'], cooldown: 2000, speedMultiplier: 1.2 }
+    ]
+  },
+  abomination: {
+    id: 'abomination',
+    name: { es: 'La Abominación', en: 'The Abomination' },
+    color: '#4c0519',
+    hpMultiplier: 1.3,
+    phases: [
+      { threshold: 1, attacks: ['slam', 'acidSpray'], cooldown: 3500, speedMultiplier: 1 },
+      { threshold: 0.66, attacks: ['charge', 'slam', 'acidSpray'], cooldown: 3000, speedMultiplier: 1.1 },
+      { threshold: 0.33, attacks: ['charge', 'slam', 'summon', 'acidSpray'], cooldown: 2000, speedMultiplier: 1.3 }
+    ]
+  }
+};
+
+export const BOSS_VARIANT_IDS = Object.keys(BOSS_VARIANTS) as BossVariantId[];
+
+// Wave 10 brings the first variant, wave 20 the second, and so on, wrapping around
+export const bossVariantForWave = (wave: number): BossVariantId =>
+  BOSS_VARIANT_IDS[Math.max(0, Math.floor(wave / BOSS_WAVE_INTERVAL) - 1) % BOSS_VARIANT_IDS.length];
+
+// The deepest phase whose threshold the boss's health has fallen to
+export const bossPhaseFor = (boss: Zombie): number => {
+  const { phases } = BOSS_VARIANTS[boss.boss!.variant];
+  const health = boss.hp / boss.maxHp;
+  let phase = 0;
+  phases.forEach((p, i) => {
+    if (health <= p.threshold) phase = i;
+  });
+  return phase;
+};
@@ -0,0 +1,92 @@
+// Timing
+// Speeds, damage-per-frame and decay values below are tuned per 60Hz frame and
+// scaled by the simulation to the actual tick length.
+export const REFERENCE_FRAME_MS = 1000 / 60;
+export const DEFAULT_TICK_RATE = 60;
+export const MAX_FRAME_DELTA = 250; // Longest frame the loop will catch up on
+
+// World
+export const GRID_CELL_SIZE = 100; // Spatial hash cell, a bit larger than the biggest common zombie
+
+// Player
+export const PLAYER_SPEED = 5; // Slightly faster for larger map
+export const PLAYER_MAX_HP = 100;
+export const STARTING_RESERVE_AMMO = 90; // For the starting weapon's ammo type
+
+// Co-op
+export const MAX_PLAYERS = 2;
+export const PLAYER_COLORS = ['#3b82f6', '#f59e0b']; // Blue, amber
+export const REVIVE_RADIUS = 50; // How close a teammate has to stand
+export const REVIVE_TIME = 3000; // ms of standing there to bring a downed player back
+export const REVIVE_HP = 0.3; // Share of max health they come back with, where the mode allows healing
+export const BLEED_OUT_TIME = 30000; // A downed player nobody revives dies after this long
+export const CAMERA_MARGIN = 200; // Kept between the players and the edge of the shared view
+export const MIN_CAMERA_ZOOM = 0.6; // Furthest the shared camera zooms out; players can't spread further
+export const CAMERA_ZOOM_RATE = 0.08; // Per frame, share of the way to the wanted zoom
+
+// Weapons (per-gun stats are in weapons.ts)
+export const AUTO_AIM_RANGE = 600;
+export const MAX_WEAPON_SLOTS = 4; // One per number key
+
+// Throwables
+export const MAX_THROWABLES = 3;
+export const STARTING_GRENADES = 2;
+export const THROW_RANGE = 450;
+export const THROW_SPEED = 0.6; // px per ms, along the ground
+export const THROW_COOLDOWN = 500;
+export const GRENADE_FUSE = 1200; // ms from the throw
+export const FIRE_ZONE_RADIUS = 70;
+export const FIRE_ZONE_DURATION = 6000;
+export const FIRE_TICK_RATE = 250; // How often a fire zone sets the zombies inside alight (burn damage is in statusEffects.ts)
+
+// Pickups (drop tables and power-up durations are in pickups.ts)
+export const PICKUP_LIFETIME = 15000; // Dropped pickups vanish after this long
+export const PICKUP_BLINK_TIME = 3000; // ...and blink during the last stretch
+export const MEDKIT_HEAL = 35;
+export const ARMOR_PLATE = 25;
+export const PLAYER_MAX_ARMOR = 50;
+export const RAPID_FIRE_MULTIPLIER = 0.5; // Applied to the time between shots
+export const DOUBLE_DAMAGE_MULTIPLIER = 2;
+export const SPEED_BOOST_MULTIPLIER = 1.5;
+
+// Perks (the perks themselves are in perks.ts)
+export const PERK_OFFER_SIZE = 3;
+
+// Pathfinding
+export const FLOW_CELL_SIZE = 50;
+export const FLOW_CLEARANCE = 12; // Obstacles are grown by this much when marking blocked cells
+
+// Crowd steering
+export const SEPARATION_RANGE = 1.3; // Personal space as a multiple of the summed radii
+export const SEPARATION_WEIGHT = 1.5;
+export const AVOIDANCE_LOOKAHEAD = 40; // How far ahead zombies look for blockers
+export const AVOIDANCE_WEIGHT = 1.2;
+export const STEERING_RESPONSE = 0.2; // Fraction of the velocity change applied per frame
+
+// Difficulty director (how stress is measured is in director.ts)
+export const DIRECTOR_INTERVAL = 2000; // ms between decisions
+export const DIRECTOR_MEMORY = 10000; // Half-life in ms of the recent damage, kill and shot tallies
+export const DIRECTOR_CALM = 0.35; // Below this stress the director pushes harder
+export const DIRECTOR_TENSE = 0.65; // Above it, it backs off and holds hordes
+export const DIRECTOR_SPAWN_INTERVAL = [0.75, 1.5]; // Spawn interval multiplier at no stress and at full stress
+export const DIRECTOR_DROP_CHANCE = [0.8, 1.5]; // Drop chance multiplier, likewise
+export const DIRECTOR_HORDE_CHANCE = 1.5; // Horde chance multiplier at no stress, down to 0 at DIRECTOR_TENSE
+export const DIRECTOR_LOOKAHEAD = 8; // Queued zombies the director may pick the next spawn from
+
+// Spawning
+// (What each wave sends and the breaks between waves are in waves/waves.json)
+export const HORDE_COOLDOWN = 15000;
+export const HORDE_CHANCE = 0.002; // Per frame once the cooldown has elapsed
+export const BOSS_WAVE_INTERVAL = 10;
+
+// Hazards
+export const EXPLOSION_RADIUS = 120;
+export const EXPLOSION_DAMAGE = 100; // To zombies; the player takes EXPLOSION_PLAYER_DAMAGE
+export const EXPLOSION_PLAYER_DAMAGE = 25;
+export const EXPLOSION_KNOCKBACK = 12;
+
+// Damage taken
+export const PLAYER_IFRAMES = 500; // ms of invulnerability after a hit
+export const CONTACT_KNOCKBACK = 8;
+export const KNOCKBACK_DECAY = 0.8; // Share of knockback speed kept per 60Hz frame
+export const ARMOR_ABSORPTION = 0.7; // Share of each hit armor takes while it lasts
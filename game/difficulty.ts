@@ -0,0 +1,99 @@
+import { DifficultyId, DifficultyPreset, Mutator, MutatorId, RunModifiers } from '../types';
+
+// Difficulty presets and the optional mutators a run can be started with. Each one only
+// lists what it changes; getRunModifiers folds the picked ones into the numbers the
+// simulation reads. The score multiplier is what makes a harder run worth more.
+
+export const DIFFICULTIES: Record<DifficultyId, DifficultyPreset> = {
+  easy: {
+    id: 'easy',
+    name: { es: 'Fácil', en: 'Easy' },
+    description: { es: 'Más vida, munición y botín. Zombis más débiles que llegan más despacio.', en: 'More health, ammo and loot. Weaker zombies that spawn slower.' },
+    modifiers: { playerHp: 1.5, startingAmmo: 1.5, damageTaken: 0.75, zombieHp: 0.8, spawnInterval: 1.25, dropChance: 1.3, scoreMultiplier: 0.5 }
+  },
+  normal: {
+    id: 'normal',
+    name: { es: 'Normal', en: 'Normal' },
+    description: { es: 'La experiencia prevista.', en: 'The intended experience.' },
+    modifiers: {}
+  },
+  hard: {
+    id: 'hard',
+    name: { es: 'Difícil', en: 'Hard' },
+    description: { es: 'Zombis más duros que llegan más deprisa.', en: 'Tougher zombies that spawn faster.' },
+    modifiers: { startingAmmo: 0.75, damageTaken: 1.25, zombieHp: 1.25, spawnInterval: 0.85, dropChance: 0.85, scoreMultiplier: 1.5 }
+  },
+  nightmare: {
+    id: 'nightmare',
+    name: { es: 'Pesadilla', en: 'Nightmare' },
+    description: { es: 'Poca vida, poca munición y ningún respiro.', en: 'Little health, little ammo, no breathing room.' },
+    modifiers: { playerHp: 0.75, startingAmmo: 0.5, damageTaken: 1.5, zombieHp: 1.5, spawnInterval: 0.7, dropChance: 0.7, scoreMultiplier: 2.5 }
+  }
+};
+
+export const DIFFICULTY_IDS = Object.keys(DIFFICULTIES) as DifficultyId[];
+
+export const DEFAULT_DIFFICULTY: DifficultyId = 'normal';
+
+export const MUTATORS: Record<MutatorId, Mutator> = {
+  glassCannon: {
+    id: 'glassCannon',
+    name: { es: 'Cañón de cristal', en: 'Glass Cannon' },
+    description: { es: 'Doble de daño, mitad de vida', en: 'Double damage, half health' },
+    modifiers: { playerHp: 0.5, damageDealt: 2, scoreMultiplier: 1.25 }
+  },
+  noAmmoDrops: {
+    id: 'noAmmoDrops',
+    name: { es: 'Sin munición', en: 'No Ammo Drops' },
+    description: { es: 'Los zombis nunca sueltan munición', en: 'Zombies never drop ammo' },
+    modifiers: { ammoDrops: false, scoreMultiplier: 1.5 }
+  },
+  explosiveDeaths: {
+    id: 'explosiveDeaths',
+    name: { es: 'Reacción en cadena', en: 'Chain Reaction' },
+    description: { es: 'Todos los zombis explotan al morir', en: 'Every zombie explodes on death' },
+    modifiers: { explosiveDeaths: true, scoreMultiplier: 1.2 }
+  },
+  fastRunners: {
+    id: 'fastRunners',
+    name: { es: 'Corredores', en: 'Sprinters' },
+    description: { es: 'Los corredores van al doble de velocidad', en: 'Runners move at double speed' },
+    modifiers: { runnerSpeed: 2, scoreMultiplier: 1.25 }
+  },
+  permanentHorde: {
+    id: 'permanentHorde',
+    name: { es: 'Horda perpetua', en: 'Endless Horde' },
+    description: { es: 'Una horda en cuanto la anterior lo permite', en: 'A horde as soon as the last one allows' },
+    modifiers: { permanentHorde: true, scoreMultiplier: 1.5 }
+  }
+};
+
+export const MUTATOR_IDS = Object.keys(MUTATORS) as MutatorId[];
+
+const NEUTRAL: RunModifiers = {
+  playerHp: 1,
+  startingAmmo: 1,
+  damageDealt: 1,
+  damageTaken: 1,
+  zombieHp: 1,
+  runnerSpeed: 1,
+  spawnInterval: 1,
+  dropChance: 1,
+  ammoDrops: true,
+  explosiveDeaths: false,
+  permanentHorde: false,
+  scoreMultiplier: 1
+};
+
+export const getRunModifiers = (difficulty: DifficultyId, mutators: MutatorId[]): RunModifiers => {
+  const result = { ...NEUTRAL };
+  const sources = [DIFFICULTIES[difficulty], ...mutators.map(id => MUTATORS[id])];
+  sources.forEach(({ modifiers }) => {
+    (Object.keys(modifiers) as (keyof RunModifiers)[]).forEach(key => {
+      const value = modifiers[key];
+      (result as Record<keyof RunModifiers, number | boolean>)[key] =
+        typeof value === 'number' ? (result[key] as number) * value : value;
+    });
+  });
+  return result;
+};
@@ -0,0 +1,128 @@
+import { DirectorDecision, DirectorState, Player, SimulationState, StressFactors } from '../types';
+import {
+  DIRECTOR_INTERVAL, DIRECTOR_MEMORY, DIRECTOR_CALM, DIRECTOR_TENSE,
+  DIRECTOR_SPAWN_INTERVAL, DIRECTOR_DROP_CHANCE, DIRECTOR_HORDE_CHANCE, DIRECTOR_LOOKAHEAD
+} from './constants';
+import { getWeapon } from './weapons';
+import { getMagazineSize } from './perks';
+import { ZombieType, getArchetype } from './zombies';
+
+// Adaptive difficulty. The wave table says what a wave sends; the director decides how
+// hard to lean on the player while it does, from how they are coping right now. It only
+// turns bounded knobs (spawn pace, which queued zombie comes next, hordes, drops), so a
+// wave still sends exactly its composition. Every decision is raised as a 'director'
+// event; `npm run director` prints them for a headless run.
+
+const WEIGHTS: StressFactors = {
+  damage: 0.3,
+  health: 0.2,
+  ammo: 0.2,
+  accuracy: 0.1,
+  killRate: 0.2
+};
+
+const MIN_SHOTS = 5; // Fewer recent shots than this say nothing about accuracy
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const neutralDecision = (): DirectorDecision => ({
+  time: 0,
+  wave: 1,
+  stress: 0.5,
+  factors: { damage: 0, health: 0, ammo: 0, accuracy: 0, killRate: 0 },
+  spawnInterval: 1,
+  mix: 'neutral',
+  hordeChance: 1,
+  dropChance: 1
+});
+
+export const createDirector = (): DirectorState => ({
+  decision: neutralDecision(),
+  nextUpdate: DIRECTOR_INTERVAL,
+  recentDamage: 0,
+  recentKills: 0,
+  recentShots: 0,
+  recentHits: 0,
+  seen: { kills: 0, shotsFired: 0, shotsHit: 0 }
+});
+
+// How low a player is on ammo for the gun in their hands
+const ammoStress = (player: Player) => {
+  const slot = player.inventory[player.activeSlot];
+  const magazine = getMagazineSize(player, getWeapon(slot.weapon));
+  return clamp01(1 - (slot.ammo + slot.reserve) / (magazine * 3));
+};
+
+// Co-op teams are judged as one: health and damage against their combined max health,
+// ammo averaged over whoever is still standing
+const measureStress = (state: SimulationState): StressFactors => {
+  const { players, director } = state;
+  const standing = players.filter(player => player.condition === 'up');
+  const maxHp = players.reduce((sum, player) => sum + player.maxHp, 0);
+  const health = standing.reduce((sum, player) => sum + player.hp + player.armor, 0);
+  const alive = state.zombies.length;
+
+  return {
+    damage: clamp01(director.recentDamage / maxHp),
+    health: clamp01(1 - health / maxHp),
+    ammo: standing.length === 0 ? 1 : standing.reduce((sum, player) => sum + ammoStress(player), 0) / standing.length,
+    accuracy: director.recentShots < MIN_SHOTS ? 0 : clamp01(1 - director.recentHits / director.recentShots),
+    killRate: alive === 0 ? 0 : alive / (alive + director.recentKills)
+  };
+};
+
+const decide = (state: SimulationState, stress: number, factors: StressFactors): DirectorDecision => ({
+  time: state.time,
+  wave: state.stats.wave,
+  stress,
+  factors,
+  spawnInterval: lerp(DIRECTOR_SPAWN_INTERVAL[0], DIRECTOR_SPAWN_INTERVAL[1], stress),
+  mix: stress < DIRECTOR_CALM ? 'heavy' : stress > DIRECTOR_TENSE ? 'light' : 'neutral',
+  hordeChance: lerp(DIRECTOR_HORDE_CHANCE, 0, clamp01(stress / DIRECTOR_TENSE)),
+  dropChance: lerp(DIRECTOR_DROP_CHANCE[0], DIRECTOR_DROP_CHANCE[1], stress)
+});
+
+/**
+ * Folds the last interval into the tallies and, while a wave is running, makes a new
+ * decision. Returns it, or null when it is not time yet or there is no wave to judge.
+ */
+export const updateDirector = (state: SimulationState): DirectorDecision | null => {
+  const { director, stats } = state;
+  if (state.time < director.nextUpdate) return null;
+
+  const elapsed = state.time - (director.nextUpdate - DIRECTOR_INTERVAL);
+  const decay = Math.pow(0.5, elapsed / DIRECTOR_MEMORY);
+  director.nextUpdate = state.time + DIRECTOR_INTERVAL;
+  director.recentDamage *= decay;
+  director.recentKills = director.recentKills * decay + stats.kills - director.seen.kills;
+  director.recentShots = director.recentShots * decay + stats.shotsFired - director.seen.shotsFired;
+  director.recentHits = director.recentHits * decay + stats.shotsHit - director.seen.shotsHit;
+  director.seen = { kills: stats.kills, shotsFired: stats.shotsFired, shotsHit: stats.shotsHit };
+
+  // Between waves nothing is being asked of the player, so the last decision stands
+  if (state.wave.phase !== 'active') return null;
+
+  const factors = measureStress(state);
+  const measured = (Object.keys(WEIGHTS) as (keyof StressFactors)[])
+    .reduce((sum, factor) => sum + factors[factor] * WEIGHTS[factor], 0);
+  const stress = lerp(director.decision.stress, measured, 0.5); // Smoothed so one bad second doesn't swing it
+
+  director.decision = decide(state, stress, factors);
+  return director.decision;
+};
+
+// Index into the wave queue of the next regular spawn. A boss at the front always goes first.
+export const pickSpawnIndex = (state: SimulationState): number => {
+  const { queue } = state.wave;
+  const { mix } = state.director.decision;
+  if (mix === 'neutral' || queue[0] === 'boss') return 0;
+
+  const threat = (type: ZombieType) => getArchetype(type).score; // Score tracks how dangerous a type is
+  let best = 0;
+  for (let i = 1; i < Math.min(queue.length, DIRECTOR_LOOKAHEAD); i++) {
+    const better = mix === 'heavy' ? threat(queue[i]) > threat(queue[best]) : threat(queue[i]) < threat(queue[best]);
+    if (better) best = i;
+  }
+  return best;
+};
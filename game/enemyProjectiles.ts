@@ -0,0 +1,30 @@
+import { EnemyProjectileKind, EnemyProjectileType } from '../types';
+
+// What ranged zombies shoot. Lobbed ones are aimed at where the player stood, so moving
+// away after the wind-up is enough to dodge them.
+export const ENEMY_PROJECTILES: Record<EnemyProjectileType, EnemyProjectileKind> = {
+  acidGlob: {
+    id: 'acidGlob',
+    radius: 8,
+    speed: 6,
+    damage: 12,
+    range: 500,
+    color: '#a3e635',
+    lobbed: true,
+    splash: { radius: 30, duration: 2500 },
+    effect: 'poisoned'
+  },
+  spit: {
+    id: 'spit',
+    radius: 5,
+    speed: 8,
+    damage: 6,
+    range: 600,
+    color: '#84cc16',
+    lobbed: false,
+    splash: null,
+    effect: 'slowed'
+  }
+};
+
+export const getEnemyProjectile = (type: EnemyProjectileType) => ENEMY_PROJECTILES[type];
@@ -0,0 +1,69 @@
+import { Point, SimulationState } from '../types';
+import { DEFAULT_TICK_RATE, MAX_FRAME_DELTA } from './constants';
+
+// Fixed-timestep driver. Real frame time is accumulated and spent in whole ticks of
+// `tickMs`, so the simulation sees the same dt no matter the display refresh rate.
+// The leftover fraction is returned as `alpha` for interpolated rendering.
+
+export interface FixedStepLoop {
+  tickRate: number;
+  tickMs: number;
+  advance: (frameDelta: number, tick: (dt: number) => void) => number;
+  reset: () => void;
+}
+
+export const createFixedStepLoop = (tickRate = DEFAULT_TICK_RATE): FixedStepLoop => {
+  const tickMs = 1000 / tickRate;
+  let accumulator = 0;
+
+  return {
+    tickRate,
+    tickMs,
+    advance: (frameDelta, tick) => {
+      // Clamp long frames (tab switch, breakpoint) to avoid a catch-up spiral
+      accumulator += Math.min(Math.max(frameDelta, 0), MAX_FRAME_DELTA);
+      while (accumulator >= tickMs) {
+        tick(tickMs);
+        accumulator -= tickMs;
+      }
+      return accumulator / tickMs;
+    },
+    reset: () => {
+      accumulator = 0;
+    }
+  };
+};
+
+// --- Interpolation ---
+
+export interface PositionSnapshot {
+  camera: Point & { zoom: number };
+  entities: Map<string, Point>;
+}
+
+// Records where everything was before a tick so the renderer can blend towards the current state
+export const capturePositions = (state: SimulationState): PositionSnapshot => {
+  const entities = new Map<string, Point>();
+  state.players.forEach(p => entities.set(p.id, { x: p.x, y: p.y }));
+  state.zombies.forEach(z => entities.set(z.id, { x: z.x, y: z.y }));
+  state.bullets.forEach(b => entities.set(b.id, { x: b.x, y: b.y }));
+  state.throwables.forEach(t => entities.set(t.id, { x: t.x, y: t.y }));
+  state.enemyProjectiles.forEach(p => entities.set(p.id, { x: p.x, y: p.y }));
+  state.particles.forEach(p => entities.set(p.id, { x: p.x, y: p.y }));
+
+  return {
+    camera: { x: state.camera.x, y: state.camera.y, zoom: state.camera.zoom },
+    entities
+  };
+};
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+export const interpolate = (previous: Point | undefined, current: Point, alpha: number): Point => {
+  // Entities spawned during the last tick have no previous position
+  if (!previous) return { x: current.x, y: current.y };
+  return {
+    x: lerp(previous.x, current.x, alpha),
+    y: lerp(previous.y, current.y, alpha)
+  };
+};
@@ -0,0 +1,106 @@
+import { GameMap, FloorTheme, Obstacle, Point, Rect } from '../types';
+import { AMMO_TYPES, WEAPON_IDS, STARTING_WEAPON, getWeapon } from './weapons';
+import downtown from '../maps/downtown.json';
+import warehouse from '../maps/warehouse.json';
+import suburbs from '../maps/suburbs.json';
+
+// Loader for the versioned JSON map format. Bundled maps go through the same validation
+// as user-supplied ones, so a typo in a map file fails loudly at startup.
+// Bump MAP_VERSION when the file layout changes.
+export const MAP_VERSION = 1;
+
+const THEMES: FloorTheme[] = ['asphalt', 'concrete', 'grass', 'sand'];
+const OBSTACLE_KINDS: Obstacle['kind'][] = ['wall', 'building', 'car'];
+
+// Typed explicitly so a call to it narrows like a throw does
+const fail: (id: string, message: string) => never = (id, message) => {
+  throw new Error(`Invalid map "${id}": ${message}`);
+};
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = <T>(options: readonly T[], value: unknown): value is T => options.some(option => option === value);
+
+const isPoint = (value: unknown): value is Fields & Point =>
+  isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+const isRect = (value: unknown): value is Fields & Rect =>
+  isPoint(value) && isNumber(value.width) && isNumber(value.height) && value.width > 0 && value.height > 0;
+
+export const parseMap = (data: unknown): GameMap => {
+  if (!isObject(data)) throw new Error('Not a map file');
+  const id = isString(data.id) && data.id ? data.id : fail('?', 'missing id');
+  const { version, name, width, height, theme, playerStart } = data;
+
+  if (version !== MAP_VERSION) fail(id, `unsupported version ${version} (expected ${MAP_VERSION})`);
+  if (!isObject(name) || !isString(name.en) || !isString(name.es)) fail(id, 'name needs "es" and "en"');
+  if (!isNumber(width) || !isNumber(height) || width <= 0 || height <= 0) fail(id, 'bad world size');
+  if (!isOneOf(THEMES, theme)) fail(id, `unknown theme "${theme}"`);
+  if (!isPoint(playerStart)) fail(id, 'missing playerStart');
+
+  const list = (key: string): unknown[] => {
+    const value = data[key] ?? [];
+    return Array.isArray(value) ? value : fail(id, `"${key}" must be a list`);
+  };
+
+  const spawnZones = list('spawnZones').map((zone, i) => isRect(zone) ? { x: zone.x, y: zone.y, width: zone.width, height: zone.height } : fail(id, `bad spawn zone ${i}`));
+
+  const obstacles = list('obstacles').map((o, i): Obstacle => {
+    if (!isRect(o) || !isOneOf(OBSTACLE_KINDS, o.kind)) fail(id, `bad obstacle ${i}`);
+    return {
+      id: isString(o.id) ? o.id : `${o.kind}-${i}`,
+      kind: o.kind,
+      x: o.x,
+      y: o.y,
+      width: o.width,
+      height: o.height
+    };
+  });
+
+  // Caches without an ammo type hold rounds for the starting weapon
+  const ammoCaches = list('ammoCaches').map((cache, i) => {
+    if (!isPoint(cache) || !isNumber(cache.amount)) fail(id, `bad ammo cache ${i}`);
+    const ammoType = cache.ammoType ?? getWeapon(STARTING_WEAPON).ammoType;
+    if (!isOneOf(AMMO_TYPES, ammoType)) fail(id, `unknown ammo type "${ammoType}" in cache ${i}`);
+    return { x: cache.x, y: cache.y, ammoType, amount: cache.amount };
+  });
+
+  const weaponCrates = list('weaponCrates').map((crate, i) => {
+    if (!isPoint(crate) || !isOneOf(WEAPON_IDS, crate.weapon)) fail(id, `bad weapon crate ${i}`);
+    return { x: crate.x, y: crate.y, weapon: crate.weapon };
+  });
+
+  const hazards = list('hazards').map((hazard, i) => {
+    if (!isPoint(hazard) || hazard.kind !== 'acid' || !isNumber(hazard.radius)) fail(id, `bad hazard ${i}`);
+    return { kind: 'acid' as const, x: hazard.x, y: hazard.y, radius: hazard.radius };
+  });
+
+  return {
+    version,
+    id,
+    name: { es: name.es, en: name.en },
+    width,
+    height,
+    theme,
+    playerStart: { x: playerStart.x, y: playerStart.y },
+    spawnZones,
+    obstacles,
+    ammoCaches,
+    weaponCrates,
+    hazards
+  };
+};
+
+export const BUNDLED_MAPS: GameMap[] = [downtown, warehouse, suburbs].map(parseMap);
+
+export const DEFAULT_MAP_ID = BUNDLED_MAPS[0].id;
+
+// Unknown ids (e.g. from an old replay) fall back to the default map
+export const getMap = (id: string): GameMap =>
+  BUNDLED_MAPS.find(map => map.id === id) ?? BUNDLED_MAPS[0];
@@ -0,0 +1,74 @@
+import { GameMode, GameModeRules } from '../types';
+import { WAVE_TABLE, BOSS_RUSH_TABLE } from './waves';
+
+// The ways a run can be played. Each mode is a set of rules the simulation checks where
+// they matter; everything not listed here plays the same in every mode.
+
+export const GAME_MODES: Record<GameMode, GameModeRules> = {
+  endless: {
+    id: 'endless',
+    name: { es: 'Infinito', en: 'Endless' },
+    description: { es: 'Rondas sin fin. Aguanta todo lo que puedas.', en: 'Waves without end. Hold out as long as you can.' },
+    waves: WAVE_TABLE,
+    drops: true,
+    healing: true,
+    immortal: false,
+    infiniteAmmo: false,
+    ranked: true
+  },
+  timed: {
+    id: 'timed',
+    name: { es: 'Contrarreloj', en: 'Timed' },
+    description: { es: 'Haz la máxima puntuación en 5 minutos.', en: 'Score as much as you can in 5 minutes.' },
+    waves: WAVE_TABLE,
+    timeLimit: 5 * 60 * 1000,
+    drops: true,
+    healing: true,
+    immortal: false,
+    infiniteAmmo: false,
+    ranked: true
+  },
+  bossRush: {
+    id: 'bossRush',
+    name: { es: 'Jefes', en: 'Boss Rush' },
+    description: { es: 'Un jefe tras otro, con breves respiros.', en: 'One boss after another, with short breaks.' },
+    waves: BOSS_RUSH_TABLE,
+    finalWave: BOSS_RUSH_TABLE.waves.length,
+    drops: true,
+    healing: true,
+    immortal: false,
+    infiniteAmmo: false,
+    ranked: true
+  },
+  hardcore: {
+    id: 'hardcore',
+    name: { es: 'Extremo', en: 'Hardcore' },
+    description: { es: 'Sin botín ni curación, y un solo cargador de repuesto.', en: 'No drops, no healing and a single spare magazine.' },
+    waves: WAVE_TABLE,
+    drops: false,
+    healing: false,
+    // One clip at a time: the loaded magazine plus a single spare, topped up only by the
+    // ammo caches placed on the map
+    reserveMagazines: 1,
+    immortal: false,
+    infiniteAmmo: false,
+    ranked: true
+  },
+  sandbox: {
+    id: 'sandbox',
+    name: { es: 'Práctica', en: 'Sandbox' },
+    description: { es: 'Sin muerte y con munición infinita. No puntúa.', en: 'No dying and infinite ammo. Not ranked.' },
+    waves: WAVE_TABLE,
+    drops: true,
+    healing: true,
+    immortal: true,
+    infiniteAmmo: true,
+    ranked: false
+  }
+};
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameMode[];
+
+export const DEFAULT_GAME_MODE: GameMode = 'endless';
+
+export const getGameMode = (mode: GameMode): GameModeRules => GAME_MODES[mode];
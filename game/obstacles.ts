@@ -0,0 +1,98 @@
+import { Point, Obstacle } from '../types';
+
+// Static, axis-aligned obstacles and the collision helpers shared by the player,
+// zombies and bullets.
+
+interface Circle extends Point {
+  radius: number;
+}
+
+export const circleHitsObstacle = (c: Circle, o: Obstacle) => {
+  const nearestX = Math.max(o.x, Math.min(c.x, o.x + o.width));
+  const nearestY = Math.max(o.y, Math.min(c.y, o.y + o.height));
+  const dx = c.x - nearestX;
+  const dy = c.y - nearestY;
+  return dx * dx + dy * dy < c.radius * c.radius;
+};
+
+export const hitsAnyObstacle = (c: Circle, obstacles: Obstacle[]) =>
+  obstacles.some(o => circleHitsObstacle(c, o));
+
+// Pushes a circle out of one obstacle along the shortest way. Returns true if it moved.
+const pushOut = (c: Circle, o: Obstacle) => {
+  const nearestX = Math.max(o.x, Math.min(c.x, o.x + o.width));
+  const nearestY = Math.max(o.y, Math.min(c.y, o.y + o.height));
+  const dx = c.x - nearestX;
+  const dy = c.y - nearestY;
+  const distSq = dx * dx + dy * dy;
+  if (distSq >= c.radius * c.radius) return false;
+
+  if (distSq > 0) {
+    const dist = Math.sqrt(distSq);
+    c.x += (dx / dist) * (c.radius - dist);
+    c.y += (dy / dist) * (c.radius - dist);
+    return true;
+  }
+
+  // Center is inside the rectangle: leave through the closest edge
+  const left = c.x - o.x;
+  const right = o.x + o.width - c.x;
+  const top = c.y - o.y;
+  const bottom = o.y + o.height - c.y;
+  const min = Math.min(left, right, top, bottom);
+  if (min === left) c.x = o.x - c.radius;
+  else if (min === right) c.x = o.x + o.width + c.radius;
+  else if (min === top) c.y = o.y - c.radius;
+  else c.y = o.y + o.height + c.radius;
+  return true;
+};
+
+// Slides a circle along obstacle edges instead of letting it pass through
+export const resolveObstacles = (c: Circle, obstacles: Obstacle[]) => {
+  let moved = false;
+  for (let i = 0; i < obstacles.length; i++) {
+    if (pushOut(c, obstacles[i])) moved = true;
+  }
+  return moved;
+};
+
+// Whether the segment a→b stays clear of every obstacle grown by `clearance` (slab test)
+export const hasLineOfSight = (a: Point, b: Point, obstacles: Obstacle[], clearance = 0) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+
+  for (let i = 0; i < obstacles.length; i++) {
+    const o = obstacles[i];
+    let tMin = 0;
+    let tMax = 1;
+    const minX = o.x - clearance;
+    const maxX = o.x + o.width + clearance;
+    const minY = o.y - clearance;
+    const maxY = o.y + o.height + clearance;
+
+    if (Math.abs(dx) < 1e-9) {
+      if (a.x < minX || a.x > maxX) continue;
+    } else {
+      let t1 = (minX - a.x) / dx;
+      let t2 = (maxX - a.x) / dx;
+      if (t1 > t2) [t1, t2] = [t2, t1];
+      tMin = Math.max(tMin, t1);
+      tMax = Math.min(tMax, t2);
+      if (tMin > tMax) continue;
+    }
+
+    if (Math.abs(dy) < 1e-9) {
+      if (a.y < minY || a.y > maxY) continue;
+    } else {
+      let t1 = (minY - a.y) / dy;
+      let t2 = (maxY - a.y) / dy;
+      if (t1 > t2) [t1, t2] = [t2, t1];
+      tMin = Math.max(tMin, t1);
+      tMax = Math.min(tMax, t2);
+      if (tMin > tMax) continue;
+    }
+
+    return false;
+  }
+  return true;
+};
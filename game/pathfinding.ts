@@ -0,0 +1,147 @@
+import { Point, Obstacle } from '../types';
+
+// Flow field towards the players. A breadth-first pass from the targets' cells gives every
+// open cell its step distance to the nearest one; zombies then walk to whichever neighbouring
+// cell is closer. One pass serves every zombie, and it only reruns when a target changes cell.
+
+export interface FlowField {
+  cellSize: number;
+  cols: number;
+  rows: number;
+  obstacles: Obstacle[]; // The list the blocked cells were built from
+  blocked: Uint8Array;
+  distance: Int32Array; // -1 for unreachable cells
+  targetCells: number[];
+}
+
+const NEIGHBOURS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+export const createFlowField = (
+  width: number,
+  height: number,
+  cellSize: number,
+  obstacles: Obstacle[],
+  clearance: number
+): FlowField => {
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const blocked = new Uint8Array(cols * rows);
+
+  // A cell is blocked when an obstacle, grown by the clearance, covers its center. Walls
+  // thinner than a cell may fall between two rows of centers; they block the row nearest them.
+  const covers = (center: number, min: number, max: number) =>
+    (center > min && center < max) || (max - min < cellSize && Math.abs(center - (min + max) / 2) <= cellSize / 2);
+
+  obstacles.forEach(o => {
+    const minCol = Math.max(0, Math.floor((o.x - clearance) / cellSize));
+    const maxCol = Math.min(cols - 1, Math.floor((o.x + o.width + clearance) / cellSize));
+    const minRow = Math.max(0, Math.floor((o.y - clearance) / cellSize));
+    const maxRow = Math.min(rows - 1, Math.floor((o.y + o.height + clearance) / cellSize));
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const cx = (col + 0.5) * cellSize;
+        const cy = (row + 0.5) * cellSize;
+        if (covers(cx, o.x - clearance, o.x + o.width + clearance) &&
+            covers(cy, o.y - clearance, o.y + o.height + clearance)) {
+          blocked[row * cols + col] = 1;
+        }
+      }
+    }
+  });
+
+  return {
+    cellSize,
+    cols,
+    rows,
+    obstacles,
+    blocked,
+    distance: new Int32Array(cols * rows).fill(-1),
+    targetCells: []
+  };
+};
+
+const cellAt = (field: FlowField, x: number, y: number) => {
+  const col = Math.max(0, Math.min(field.cols - 1, Math.floor(x / field.cellSize)));
+  const row = Math.max(0, Math.min(field.rows - 1, Math.floor(y / field.cellSize)));
+  return row * field.cols + col;
+};
+
+// Diagonal moves may not cut the corner of a blocked cell
+const canStep = (field: FlowField, col: number, row: number, dc: number, dr: number) => {
+  const nc = col + dc;
+  const nr = row + dr;
+  if (nc < 0 || nr < 0 || nc >= field.cols || nr >= field.rows) return false;
+  if (field.blocked[nr * field.cols + nc]) return false;
+  if (dc !== 0 && dr !== 0) {
+    if (field.blocked[row * field.cols + nc] || field.blocked[nr * field.cols + col]) return false;
+  }
+  return true;
+};
+
+export const updateFlowField = (field: FlowField, targets: Point[]) => {
+  const targetCells = targets.map(target => cellAt(field, target.x, target.y));
+  if (targetCells.length === field.targetCells.length && targetCells.every((cell, i) => cell === field.targetCells[i])) return;
+  field.targetCells = targetCells;
+
+  const { distance, cols } = field;
+  distance.fill(-1);
+  const queue = new Int32Array(field.cols * field.rows);
+  let head = 0;
+  let tail = 0;
+  targetCells.forEach(cell => {
+    if (distance[cell] === 0) return;
+    distance[cell] = 0;
+    queue[tail++] = cell;
+  });
+
+  while (head < tail) {
+    const cell = queue[head++];
+    const col = cell % cols;
+    const row = (cell - col) / cols;
+    for (let i = 0; i < NEIGHBOURS.length; i++) {
+      const [dc, dr] = NEIGHBOURS[i];
+      if (!canStep(field, col, row, dc, dr)) continue;
+      const next = (row + dr) * cols + (col + dc);
+      if (distance[next] !== -1) continue;
+      distance[next] = distance[cell] + 1;
+      queue[tail++] = next;
+    }
+  }
+};
+
+// Center of the neighbouring cell one step closer to a target, or null when already
+// in a target's cell or cut off from them all
+export const flowWaypoint = (field: FlowField, x: number, y: number): Point | null => {
+  const cell = cellAt(field, x, y);
+  if (field.distance[cell] === 0) return null;
+
+  const col = cell % field.cols;
+  const row = (cell - col) / field.cols;
+  const current = field.distance[cell];
+  let best = -1;
+  let bestDistance = current === -1 ? Infinity : current;
+
+  for (let i = 0; i < NEIGHBOURS.length; i++) {
+    const [dc, dr] = NEIGHBOURS[i];
+    const nc = col + dc;
+    const nr = row + dr;
+    if (nc < 0 || nr < 0 || nc >= field.cols || nr >= field.rows) continue;
+    const next = nr * field.cols + nc;
+    const d = field.distance[next];
+    if (d !== -1 && d < bestDistance) {
+      bestDistance = d;
+      best = next;
+    }
+  }
+
+  if (best === -1) return null;
+  const bestCol = best % field.cols;
+  const bestRow = (best - bestCol) / field.cols;
+  return {
+    x: (bestCol + 0.5) * field.cellSize,
+    y: (bestRow + 0.5) * field.cellSize
+  };
+};
@@ -0,0 +1,81 @@
+import { Perk, PerkId, Player, Weapon } from '../types';
+
+// Upgrades picked between waves. One-off ones (health, speed, armor) are applied when taken;
+// the rest are looked up from the player's perk list where they matter.
+
+export const PERKS: Record<PerkId, Perk> = {
+  maxHp: {
+    id: 'maxHp',
+    name: { es: 'Vitalidad', en: 'Vitality' },
+    description: { es: '+20 de vida máxima', en: '+20 max health' },
+    amount: 20,
+    maxStacks: 5
+  },
+  moveSpeed: {
+    id: 'moveSpeed',
+    name: { es: 'Piernas ligeras', en: 'Light Feet' },
+    description: { es: '+10% velocidad de movimiento', en: '+10% movement speed' },
+    amount: 0.1,
+    maxStacks: 4
+  },
+  reloadSpeed: {
+    id: 'reloadSpeed',
+    name: { es: 'Manos rápidas', en: 'Quick Hands' },
+    description: { es: '-15% tiempo de recarga', en: '-15% reload time' },
+    amount: 0.15,
+    maxStacks: 4
+  },
+  magazineSize: {
+    id: 'magazineSize',
+    name: { es: 'Cargadores ampliados', en: 'Extended Mags' },
+    description: { es: '+25% capacidad del cargador', en: '+25% magazine size' },
+    amount: 0.25,
+    maxStacks: 4
+  },
+  damage: {
+    id: 'damage',
+    name: { es: 'Potencia de fuego', en: 'Firepower' },
+    description: { es: '+15% daño de las armas', en: '+15% weapon damage' },
+    amount: 0.15,
+    maxStacks: 5
+  },
+  pickupRadius: {
+    id: 'pickupRadius',
+    name: { es: 'Carroñero', en: 'Scavenger' },
+    description: { es: 'Recoges objetos desde más lejos', en: 'Grab pickups from further away' },
+    amount: 30,
+    maxStacks: 3
+  },
+  armor: {
+    id: 'armor',
+    name: { es: 'Chaleco reforzado', en: 'Reinforced Vest' },
+    description: { es: '+25 de blindaje máximo y lo rellena', en: '+25 max armor and refills it' },
+    amount: 25,
+    maxStacks: 4
+  }
+};
+
+export const PERK_IDS = Object.keys(PERKS) as PerkId[];
+
+export const countPerk = (player: Player, id: PerkId) =>
+  player.perks.reduce((count, perk) => count + (perk === id ? 1 : 0), 0);
+
+export const getMagazineSize = (player: Player, weapon: Weapon) =>
+  Math.round(weapon.magazineSize * (1 + PERKS.magazineSize.amount * countPerk(player, 'magazineSize')));
+
+export const getReloadTime = (player: Player, weapon: Weapon) =>
+  weapon.reloadTime * Math.pow(1 - PERKS.reloadSpeed.amount, countPerk(player, 'reloadSpeed'));
+
+export const getDamageMultiplier = (player: Player) =>
+  1 + PERKS.damage.amount * countPerk(player, 'damage');
+
+// Extra reach, in px, when collecting pickups
+export const getPickupReach = (player: Player) =>
+  PERKS.pickupRadius.amount * countPerk(player, 'pickupRadius');
+
+// Groups repeated picks, in the order each perk was first taken
+export const summarizePerks = (perks: PerkId[]) => {
+  const counts = new Map<PerkId, number>();
+  perks.forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+  return [...counts].map(([id, count]) => ({ perk: PERKS[id], count }));
+};
@@ -0,0 +1,52 @@
+import { Pickup, Player, PowerUp, PowerUpType } from '../types';
+import { getWeapon } from './weapons';
+
+// Power-ups last a fixed time from pickup; grabbing one that is already running restarts it
+export const POWER_UPS: Record<PowerUpType, PowerUp> = {
+  rapidFire: {
+    id: 'rapidFire',
+    name: { es: 'Fuego rápido', en: 'Rapid Fire' },
+    duration: 10000,
+    color: '#facc15'
+  },
+  doubleDamage: {
+    id: 'doubleDamage',
+    name: { es: 'Daño doble', en: 'Double Damage' },
+    duration: 10000,
+    color: '#ef4444'
+  },
+  infiniteAmmo: {
+    id: 'infiniteAmmo',
+    name: { es: 'Munición infinita', en: 'Infinite Ammo' },
+    duration: 8000,
+    color: '#38bdf8'
+  },
+  speedBoost: {
+    id: 'speedBoost',
+    name: { es: 'Velocidad', en: 'Speed Boost' },
+    duration: 8000,
+    color: '#34d399'
+  },
+  invulnerability: {
+    id: 'invulnerability',
+    name: { es: 'Invulnerable', en: 'Invulnerable' },
+    duration: 5000,
+    color: '#e879f9'
+  }
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+export const hasPowerUp = (player: Player, type: PowerUpType) =>
+  player.powerUps.some(p => p.type === type);
+
+export const getPickupColor = (pickup: Pickup) => {
+  switch (pickup.kind) {
+    case 'ammo': return '#eab308';
+    case 'medkit': return '#f43f5e';
+    case 'armor': return '#60a5fa';
+    case 'weapon': return getWeapon(pickup.weapon).color;
+    case 'throwable': return pickup.type === 'grenade' ? '#a3e635' : '#fbbf24';
+    case 'powerUp': return POWER_UPS[pickup.powerUp].color;
+  }
+};
@@ -0,0 +1,39 @@
+// Seedable PRNG for all gameplay randomness. The generator state is a single uint32
+// kept on the simulation state, so a run is fully determined by its seed and inputs.
+
+interface RandomSource {
+  rngState: number;
+}
+
+// Mulberry32: tiny, fast and plenty random for spawn and drop rolls
+export const random = (source: RandomSource): number => {
+  let t = (source.rngState = (source.rngState + 0x6D2B79F5) | 0);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomRange = (source: RandomSource, min: number, max: number) =>
+  min + random(source) * (max - min);
+
+// Integer in [0, max)
+export const randomInt = (source: RandomSource, max: number) =>
+  Math.floor(random(source) * max);
+
+// FNV-1a, used to turn readable keys (dates, share codes) into seeds
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// UTC date so every timezone gets the same challenge on the same day
+export const dateKey = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+export const dailySeed = (date: Date = new Date()) => hashSeed(`daily-${dateKey(date)}`);
+
+// Seed for regular runs. The only place allowed to use Math.random.
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
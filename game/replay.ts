@@ -0,0 +1,240 @@
+import { Replay, ReplayInputRun, RunConfig, GameStats, SimulationInput, SimulationState, SimulationEvent } from '../types';
+import { MAX_PLAYERS } from './constants';
+import { DIFFICULTY_IDS, MUTATOR_IDS } from './difficulty';
+import { BUNDLED_MAPS } from './maps';
+import { GAME_MODE_IDS } from './modes';
+import { createInitialState, step } from './simulation';
+
+// Replays store the seed plus every tick's input. Since the simulation is deterministic,
+// re-running those inputs reproduces the run exactly.
+// Bump REPLAY_VERSION when the file layout changes.
+export const REPLAY_VERSION = 6;
+
+const KEYFRAME_INTERVAL = 600; // Ticks between cached snapshots used for seeking
+
+const FLAG_FIRE = 1;
+const FLAG_AUTO_FIRE = 2;
+const FLAG_RELOAD = 4;
+const FLAG_THROW = 8;
+const FLAG_THROW_AUTO = 16;
+const SLOT_SHIFT = 5; // Bits above the flags hold the selected weapon slot + 1 (0 = no switch)
+const SLOT_MASK = 7;
+const PERK_SHIFT = 8; // ...and above those, the picked perk + 1 (0 = none)
+const FIELDS = 5; // Numbers per player in a run
+
+// --- Encoding ---
+
+const encodeInput = (input: SimulationInput): number[] => [
+  Math.round(input.move.x * 1000),
+  Math.round(input.move.y * 1000),
+  // Aim only matters on ticks with a manual shot or throw; zeroing it keeps runs long
+  input.fire || input.throw === 'aim' ? Math.round(input.aim.x) : 0,
+  input.fire || input.throw === 'aim' ? Math.round(input.aim.y) : 0,
+  (input.fire ? FLAG_FIRE : 0) | (input.autoFire ? FLAG_AUTO_FIRE : 0) | (input.reload ? FLAG_RELOAD : 0) |
+    (input.throw === 'aim' ? FLAG_THROW : 0) | (input.throw === 'auto' ? FLAG_THROW_AUTO : 0) |
+    ((input.weaponSlot === null ? 0 : input.weaponSlot + 1) << SLOT_SHIFT) |
+    ((input.perk === null ? 0 : input.perk + 1) << PERK_SHIFT)
+];
+
+// `at` is where the player's fields start in the run
+const decodeInput = (run: ReplayInputRun, at: number): SimulationInput => {
+  const flags = run[at + 4];
+  return {
+    move: { x: run[at] / 1000, y: run[at + 1] / 1000 },
+    aim: { x: run[at + 2], y: run[at + 3] },
+    fire: (flags & FLAG_FIRE) !== 0,
+    autoFire: (flags & FLAG_AUTO_FIRE) !== 0,
+    reload: (flags & FLAG_RELOAD) !== 0,
+    weaponSlot: ((flags >> SLOT_SHIFT) & SLOT_MASK) > 0 ? ((flags >> SLOT_SHIFT) & SLOT_MASK) - 1 : null,
+    throw: (flags & FLAG_THROW) !== 0 ? 'aim' : (flags & FLAG_THROW_AUTO) !== 0 ? 'auto' : null,
+    perk: (flags >> PERK_SHIFT) > 0 ? (flags >> PERK_SHIFT) - 1 : null
+  };
+};
+
+const decodeInputs = (run: ReplayInputRun): SimulationInput[] => {
+  const inputs: SimulationInput[] = [];
+  for (let at = 1; at < run.length; at += FIELDS) inputs.push(decodeInput(run, at));
+  return inputs;
+};
+
+const sameInput = (a: ReplayInputRun, b: ReplayInputRun) =>
+  a.length === b.length && a.every((value, i) => i === 0 || value === b[i]);
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = <T>(options: readonly T[], value: unknown): value is T => options.some(option => option === value);
+
+const isNumberList = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+
+// Everything the simulation looks up by id must exist here, or loading the run would
+// crash the game loop instead of reporting a bad file
+export const isRunConfig = (value: unknown): value is RunConfig => {
+  if (!isObject(value)) return false;
+  const { seed, daily, mapId, mode, difficulty, mutators, players } = value;
+  return isNumber(seed) &&
+    typeof daily === 'boolean' &&
+    BUNDLED_MAPS.some(map => map.id === mapId) &&
+    isOneOf(GAME_MODE_IDS, mode) &&
+    isOneOf(DIFFICULTY_IDS, difficulty) &&
+    Array.isArray(mutators) && mutators.every(mutator => isOneOf(MUTATOR_IDS, mutator)) &&
+    isNumber(players) && Number.isInteger(players) && players >= 1 && players <= MAX_PLAYERS;
+};
+
+// Shape check shared with saved runs, which carry the replay recorded so far
+export const isReplay = (value: unknown): value is Replay => {
+  if (!isObject(value)) return false;
+  const { config, tickRate, views, inputs, stats } = value;
+  if (!isRunConfig(config) || !isNumber(tickRate) || tickRate <= 0) return false;
+  const runLength = 1 + FIELDS * config.players;
+  return Array.isArray(views) && views.length > 0 && views.every(view => isNumberList(view) && view.length === 3) &&
+    Array.isArray(inputs) && inputs.every(run => isNumberList(run) && run.length === runLength && run[0] > 0) &&
+    (stats === null || isObject(stats));
+};
+
+export const parseReplay = (text: string): Replay => {
+  const data: unknown = JSON.parse(text);
+  if (!isObject(data) || !isNumber(data.version)) {
+    throw new Error('Not a replay file');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`);
+  }
+  if (!isReplay(data)) {
+    throw new Error('Corrupted replay file');
+  }
+  return data;
+};
+
+// --- Recording ---
+
+export interface ReplayRecorder {
+  replay: Replay;
+  // Returns the inputs as they will be played back, which is what the live run must step with
+  record: (inputs: SimulationInput[]) => SimulationInput[];
+  resize: (width: number, height: number) => void;
+  finish: (stats: GameStats) => Replay;
+}
+
+// `tick` is how many ticks `replay` already holds
+const recordInto = (replay: Replay, tick: number): ReplayRecorder => {
+  return {
+    replay,
+    record: (inputs) => {
+      const encoded: ReplayInputRun = [1, ...inputs.flatMap(encodeInput)];
+      const last = replay.inputs[replay.inputs.length - 1];
+      if (last && sameInput(last, encoded)) {
+        last[0]++;
+      } else {
+        replay.inputs.push(encoded);
+      }
+      tick++;
+      return decodeInputs(encoded);
+    },
+    resize: (width, height) => {
+      const last = replay.views[replay.views.length - 1];
+      if (last[1] === width && last[2] === height) return;
+      if (last[0] === tick) {
+        last[1] = width;
+        last[2] = height;
+      } else {
+        replay.views.push([tick, width, height]);
+      }
+    },
+    finish: (stats) => {
+      replay.stats = structuredClone(stats);
+      return replay;
+    }
+  };
+};
+
+export const createReplayRecorder = (config: RunConfig, tickRate: number, width: number, height: number): ReplayRecorder =>
+  recordInto({
+    version: REPLAY_VERSION,
+    config,
+    tickRate,
+    recordedAt: new Date().toISOString(),
+    views: [[0, width, height]],
+    inputs: [],
+    stats: null
+  }, 0);
+
+// Keeps appending to a partial replay, e.g. one saved alongside an unfinished run
+export const resumeReplayRecorder = (replay: Replay): ReplayRecorder =>
+  recordInto(structuredClone(replay), replay.inputs.reduce((ticks, run) => ticks + run[0], 0));
+
+// --- Playback ---
+
+export interface ReplayPlayer {
+  replay: Replay;
+  state: SimulationState;
+  tick: number;
+  totalTicks: number;
+  step: () => SimulationEvent[];
+  seek: (tick: number) => void;
+}
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  // Expand runs so each tick can be looked up directly
+  const inputs: SimulationInput[][] = [];
+  replay.inputs.forEach(run => {
+    const tickInputs = decodeInputs(run);
+    for (let i = 0; i < run[0]; i++) inputs.push(tickInputs);
+  });
+
+  const dt = 1000 / replay.tickRate;
+  const [, width, height] = replay.views[0];
+  const keyframes = new Map<number, SimulationState>();
+
+  const player: ReplayPlayer = {
+    replay,
+    state: createInitialState(replay.config, width, height),
+    tick: 0,
+    totalTicks: inputs.length,
+    step: () => {
+      if (player.tick >= inputs.length) return [];
+
+      replay.views.forEach(([tick, w, h]) => {
+        if (tick === player.tick) {
+          player.state.camera.width = w;
+          player.state.camera.height = h;
+        }
+      });
+
+      const events = step(player.state, inputs[player.tick], dt);
+      player.tick++;
+
+      if (player.tick % KEYFRAME_INTERVAL === 0 && !keyframes.has(player.tick)) {
+        keyframes.set(player.tick, structuredClone(player.state));
+      }
+      return events;
+    },
+    seek: (target) => {
+      target = Math.max(0, Math.min(inputs.length, Math.floor(target)));
+
+      // Seeking forward can simply keep simulating
+      if (target >= player.tick && target - player.tick < KEYFRAME_INTERVAL) {
+        while (player.tick < target) player.step();
+        return;
+      }
+
+      // Restart from the closest cached snapshot at or before the target
+      let from = 0;
+      keyframes.forEach((_, tick) => {
+        if (tick <= target && tick > from) from = tick;
+      });
+
+      player.state = structuredClone(keyframes.get(from)!);
+      player.tick = from;
+      while (player.tick < target) player.step();
+    }
+  };
+
+  keyframes.set(0, structuredClone(player.state));
+  return player;
+};
@@ -0,0 +1,305 @@
+import { describe, expect, it } from 'vitest';
+import { GameMode, PerkId, SimulationEvent, SimulationInput, SimulationState } from '../types';
+import { createExplosion, createIdleInput, createInitialState, createRunConfig, spawnZombie, step } from './simulation';
+import { createReplayPlayer, createReplayRecorder, parseReplay, serializeReplay } from './replay';
+import { createSnapshot, parseSnapshot, serializeSnapshot } from './snapshot';
+import { ARMOR_ABSORPTION, BLEED_OUT_TIME, EXPLOSION_DAMAGE, EXPLOSION_PLAYER_DAMAGE, EXPLOSION_RADIUS, PLAYER_IFRAMES, REVIVE_HP, REVIVE_TIME } from './constants';
+import { getActiveSlot, getWeapon } from './weapons';
+import { PERK_IDS, PERKS } from './perks';
+
+const DT = 1000 / 60;
+
+const newRun = (players = 1, seed = 7) =>
+  createInitialState({ ...createRunConfig(false, 'warehouse', 'endless', 'normal', [], players), seed }, 1280, 720);
+
+// Keeps the first wave from ever starting, so only what a test sets up is in play
+const holdWaves = (state: SimulationState) => {
+  state.wave.endsAt = Infinity;
+};
+
+// A bot that wanders, fires at whatever is closest and reloads when empty
+const botInputs = (state: SimulationState, tick: number): SimulationInput[] =>
+  state.players.map((player, i) => ({
+    ...createIdleInput(),
+    move: { x: Math.sin(tick / (150 + i * 70)), y: Math.cos(tick / 250) },
+    autoFire: true,
+    reload: getActiveSlot(player).ammo === 0,
+    perk: state.perkOffer.length > 0 && i === 0 ? 0 : null
+  }));
+
+// Steps with every player standing still
+const idle = (state: SimulationState, ticks: number) => {
+  for (let i = 0; i < ticks; i++) step(state, state.players.map(createIdleInput), DT);
+};
+
+const play = (seed: number, ticks: number) => {
+  const state = newRun(1, seed);
+  const events: SimulationEvent[] = [];
+  for (let tick = 0; tick < ticks && !state.isGameOver; tick++) events.push(...step(state, botInputs(state, tick), DT));
+  return { state, events };
+};
+
+describe('headless step', () => {
+  it('runs in plain Node and gives the same run for the same seed and inputs', () => {
+    const first = play(3, 3000);
+    const second = play(3, 3000);
+    expect(first.state.stats.kills).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('advances the simulated clock by dt and does nothing once the run is over', () => {
+    const state = newRun();
+    idle(state, 1);
+    expect(state.time).toBe(DT);
+
+    state.isGameOver = true;
+    expect(step(state, [createIdleInput()], DT)).toEqual([]);
+    expect(state.time).toBe(DT);
+  });
+});
+
+describe('determinism', () => {
+  it('replays recorded inputs to the same final state', () => {
+    const config = { ...createRunConfig(false, 'warehouse'), seed: 11 };
+    const live = createInitialState(config, 1280, 720);
+    const recorder = createReplayRecorder(config, 60, 1280, 720);
+    for (let tick = 0; tick < 3000 && !live.isGameOver; tick++) {
+      step(live, recorder.record(botInputs(live, tick)), DT);
+    }
+
+    const playback = createReplayPlayer(recorder.finish(live.stats));
+    while (playback.tick < playback.totalTicks) playback.step();
+    expect(playback.state).toEqual(live);
+  });
+
+  it('replays co-op runs too', () => {
+    const config = { ...createRunConfig(false, 'warehouse', 'endless', 'normal', [], 2), seed: 4 };
+    const live = createInitialState(config, 1280, 720);
+    const recorder = createReplayRecorder(config, 60, 1280, 720);
+    for (let tick = 0; tick < 2000 && !live.isGameOver; tick++) {
+      step(live, recorder.record(botInputs(live, tick)), DT);
+    }
+
+    const playback = createReplayPlayer(recorder.finish(live.stats));
+    while (playback.tick < playback.totalTicks) playback.step();
+    expect(playback.state).toEqual(live);
+  });
+
+  it('rejects replay files with settings the game does not know', () => {
+    const replay = createReplayRecorder(createRunConfig(false, 'warehouse'), 60, 1280, 720).replay;
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+
+    const tampered = (config: object) => serializeReplay({ ...replay, config: { ...replay.config, ...config } });
+    expect(() => parseReplay(tampered({ mode: 'deathmatch' }))).toThrow('Corrupted replay file');
+    expect(() => parseReplay(tampered({ difficulty: 'insane' }))).toThrow('Corrupted replay file');
+    expect(() => parseReplay(tampered({ mutators: ['glassCannon', 'lowGravity'] }))).toThrow('Corrupted replay file');
+    expect(() => parseReplay(tampered({ mapId: 'moon' }))).toThrow('Corrupted replay file');
+    expect(() => parseReplay(tampered({ players: 3 }))).toThrow('Corrupted replay file');
+  });
+
+  it('continues a saved run exactly where it stopped', () => {
+    const live = newRun();
+    for (let tick = 0; tick < 1200; tick++) step(live, botInputs(live, tick), DT);
+
+    const recorder = createReplayRecorder(live.config, 60, 1280, 720);
+    const restored = parseSnapshot(serializeSnapshot(createSnapshot(live, recorder.replay))).state;
+    expect(restored).toEqual(live);
+
+    for (let tick = 1200; tick < 2400; tick++) {
+      step(live, botInputs(live, tick), DT);
+      step(restored, botInputs(restored, tick), DT);
+    }
+    expect(restored).toEqual(live);
+  });
+
+  it('rejects saves whose state no longer fits the game', () => {
+    const live = newRun();
+    const snapshot = createSnapshot(live, createReplayRecorder(live.config, 60, 1280, 720).replay);
+
+    const tampered = (state: object) => serializeSnapshot({ ...snapshot, state: { ...snapshot.state, ...state } });
+    expect(() => parseSnapshot(tampered({ config: { ...live.config, mode: 'deathmatch' } }))).toThrow('Corrupted saved run');
+    expect(() => parseSnapshot(tampered({ zombies: undefined }))).toThrow('Corrupted saved run');
+    expect(() => parseSnapshot(tampered({ wave: null }))).toThrow('Corrupted saved run');
+    expect(() => parseSnapshot(tampered({ perkOffer: ['jetpack'] }))).toThrow('Corrupted saved run');
+  });
+});
+
+describe('rules', () => {
+  it('refills the magazine from the reserve after the reload time', () => {
+    const state = newRun();
+    holdWaves(state);
+    const [player] = state.players;
+    const slot = getActiveSlot(player);
+    const weapon = getWeapon(slot.weapon);
+    const reserve = slot.reserve;
+    slot.ammo = 0;
+    step(state, [{ ...createIdleInput(), reload: true }], DT);
+    idle(state, Math.ceil(weapon.reloadTime / DT));
+    expect(slot.ammo).toBe(weapon.magazineSize);
+    expect(slot.reserve).toBe(reserve - weapon.magazineSize);
+    expect(player.isReloading).toBe(false);
+  });
+
+  it('hurts the player and zombies inside the blast radius only', () => {
+    const state = newRun();
+    holdWaves(state);
+    const [player] = state.players;
+    spawnZombie(state, 'walker', player.x + EXPLOSION_RADIUS / 2, player.y);
+    spawnZombie(state, 'walker', player.x + EXPLOSION_RADIUS * 2, player.y);
+    idle(state, 1); // Files them in the collision grid
+    const [near, far] = state.zombies.map(z => z.hp);
+
+    createExplosion(state, player.x, player.y, []);
+    expect(player.hp).toBe(player.maxHp - EXPLOSION_PLAYER_DAMAGE);
+    expect(state.zombies[0].hp).toBe(near - EXPLOSION_DAMAGE);
+    expect(state.zombies[1].hp).toBe(far);
+  });
+
+  it('picks up ammo drops the player walks over', () => {
+    const state = newRun();
+    holdWaves(state);
+    const [player] = state.players;
+    const slot = getActiveSlot(player);
+    const reserve = slot.reserve;
+    const ammoType = getWeapon(slot.weapon).ammoType;
+    state.pickups = [{ id: 'ammo-test', kind: 'ammo', x: player.x, y: player.y, radius: 12, expiresAt: Infinity, ammoType, amount: 20 }];
+    idle(state, 1);
+    expect(slot.reserve).toBe(reserve + 20);
+    expect(state.pickups).toHaveLength(0);
+  });
+});
+
+describe('damage to players', () => {
+  const blast = (state: SimulationState) => {
+    const [player] = state.players;
+    const events: SimulationEvent[] = [];
+    createExplosion(state, player.x, player.y, events);
+    return events;
+  };
+
+  it('ignores further hits during the invulnerability window', () => {
+    const state = newRun();
+    holdWaves(state);
+    idle(state, 1);
+    const [player] = state.players;
+
+    blast(state);
+    const afterFirst = player.hp;
+    expect(afterFirst).toBe(player.maxHp - EXPLOSION_PLAYER_DAMAGE);
+
+    expect(blast(state).some(event => event.type === 'damage')).toBe(false);
+    expect(player.hp).toBe(afterFirst);
+
+    idle(state, Math.ceil(PLAYER_IFRAMES / DT));
+    blast(state);
+    expect(player.hp).toBe(afterFirst - EXPLOSION_PLAYER_DAMAGE);
+  });
+
+  it('lets armor take its share of a hit', () => {
+    const state = newRun();
+    holdWaves(state);
+    idle(state, 1);
+    const [player] = state.players;
+    player.armor = player.maxArmor = 100;
+
+    blast(state);
+    const absorbed = EXPLOSION_PLAYER_DAMAGE * ARMOR_ABSORPTION;
+    expect(player.armor).toBeCloseTo(100 - absorbed);
+    expect(player.hp).toBeCloseTo(player.maxHp - (EXPLOSION_PLAYER_DAMAGE - absorbed));
+  });
+});
+
+describe('waves', () => {
+  it('runs from the countdown into an active wave and queues its zombies', () => {
+    const state = newRun();
+    expect(state.wave.phase).toBe('countdown');
+
+    const events: SimulationEvent[] = [];
+    while (state.wave.phase === 'countdown') events.push(...step(state, [createIdleInput()], DT));
+    expect(state.wave.phase).toBe('active');
+    expect(state.wave.total).toBeGreaterThan(0);
+    expect(events).toContainEqual({ type: 'wave', wave: 1, boss: false });
+  });
+});
+
+describe('co-op revives', () => {
+  const downSecond = (state: SimulationState) => {
+    state.players[1].hp = 0;
+    idle(state, 1);
+    expect(state.players[1].condition).toBe('downed');
+  };
+
+  it('brings a downed player back after a teammate stands by for REVIVE_TIME', () => {
+    const state = newRun(2);
+    holdWaves(state);
+    downSecond(state);
+    const [reviver, downed] = state.players;
+    reviver.x = downed.x + 20;
+    reviver.y = downed.y;
+
+    idle(state, Math.floor(REVIVE_TIME / DT) - 2);
+    expect(downed.condition).toBe('downed');
+    idle(state, 3);
+    expect(downed.condition).toBe('up');
+    expect(downed.hp).toBe(downed.maxHp * REVIVE_HP);
+    expect(state.stats.players[0].revives).toBe(1);
+    expect(state.stats.players[1].downs).toBe(1);
+  });
+
+  it('lets an unattended player bleed out, and ends the run once nobody is standing', () => {
+    const state = newRun(2);
+    holdWaves(state);
+    downSecond(state);
+    state.players[0].x += 400;
+
+    idle(state, Math.ceil(BLEED_OUT_TIME / DT) + 1);
+    expect(state.players[1].condition).toBe('dead');
+    expect(state.isGameOver).toBe(false);
+
+    state.players[0].hp = 0;
+    idle(state, 1);
+    expect(state.isGameOver).toBe(true);
+  });
+});
+
+describe('perk offers', () => {
+  it('only offers perks that every player can still stack', () => {
+    const state = newRun(2);
+    const capped = PERK_IDS.filter(id => id !== 'moveSpeed');
+    state.players[1].perks = capped.flatMap(id => Array<PerkId>(PERKS[id].maxStacks).fill(id));
+    state.wave.phase = 'active';
+    state.wave.queue = [];
+
+    idle(state, 1);
+    expect(state.wave.phase).toBe('cleared');
+    expect(state.perkOffer).toEqual(['moveSpeed']);
+  });
+});
+
+describe('hardcore', () => {
+  // Kills a crowd of zombies in one tick and returns what they left behind
+  const lootFrom = (mode: GameMode) => {
+    const state = createInitialState({ ...createRunConfig(false, 'warehouse', mode), seed: 5 }, 1280, 720);
+    holdWaves(state);
+    const [player] = state.players;
+    const placed = new Set(state.pickups.map(pickup => pickup.id));
+    for (let i = 0; i < 300; i++) {
+      spawnZombie(state, i % 2 ? 'tank' : 'walker', player.x + 400 + (i % 20) * 10, player.y + Math.floor(i / 20) * 10);
+    }
+    state.zombies.forEach(z => {
+      z.hp = 0;
+    });
+    idle(state, 1);
+    expect(state.stats.kills).toBe(300);
+    return state.pickups.filter(pickup => !placed.has(pickup.id));
+  };
+
+  it('leaves no loot behind, where the same kills in endless drop power-ups and weapons', () => {
+    const isRare = (kind: string) => kind === 'powerUp' || kind === 'weapon';
+    expect(lootFrom('endless').some(pickup => isRare(pickup.kind))).toBe(true);
+
+    const loot = lootFrom('hardcore');
+    expect(loot.filter(pickup => isRare(pickup.kind))).toEqual([]);
+    expect(loot).toEqual([]);
+  });
+});
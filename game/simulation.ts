@@ -0,0 +1,1555 @@
+import {
+  Point, Entity, Player, Zombie, Bullet, Damage, GameStats, PlayerStats, RunConfig, RunModifiers, WeaponId, ThrowableType, Pickup, PickupKind, PerkId, EnemyProjectileType,
+  SimulationState, SimulationInput, SimulationEvent, WaveState, WaveTable, DifficultyId, MutatorId, GameMode, RunOutcome,
+  WeaponSlot
+} from '../types';
+import {
+  PLAYER_SPEED, PLAYER_MAX_HP, PLAYER_MAX_ARMOR, MAX_WEAPON_SLOTS, PERK_OFFER_SIZE,
+  MAX_THROWABLES, STARTING_GRENADES, THROW_RANGE, THROW_SPEED, THROW_COOLDOWN, GRENADE_FUSE,
+  FIRE_ZONE_RADIUS, FIRE_ZONE_DURATION, FIRE_TICK_RATE,
+  PICKUP_LIFETIME, MEDKIT_HEAL, ARMOR_PLATE, RAPID_FIRE_MULTIPLIER, DOUBLE_DAMAGE_MULTIPLIER, SPEED_BOOST_MULTIPLIER,
+  AUTO_AIM_RANGE, HORDE_COOLDOWN,
+  EXPLOSION_RADIUS, EXPLOSION_DAMAGE, EXPLOSION_PLAYER_DAMAGE, EXPLOSION_KNOCKBACK, HORDE_CHANCE,
+  PLAYER_IFRAMES, CONTACT_KNOCKBACK, KNOCKBACK_DECAY, ARMOR_ABSORPTION,
+  PLAYER_COLORS, REVIVE_RADIUS, REVIVE_TIME, REVIVE_HP, BLEED_OUT_TIME, CAMERA_MARGIN, MIN_CAMERA_ZOOM, CAMERA_ZOOM_RATE,
+  REFERENCE_FRAME_MS, GRID_CELL_SIZE, FLOW_CELL_SIZE, FLOW_CLEARANCE
+} from './constants';
+import { random, randomInt, randomRange, randomSeed, dailySeed } from './random';
+import { createSpatialGrid, rebuildGrid, queryRadius, findNearestInGrid } from './spatialGrid';
+import { steerZombies, separateZombies } from './steering';
+import { resolveObstacles, hitsAnyObstacle, hasLineOfSight } from './obstacles';
+import { FlowField, createFlowField, updateFlowField, flowWaypoint } from './pathfinding';
+import { BUNDLED_MAPS, DEFAULT_MAP_ID, getMap } from './maps';
+import {
+  WEAPON_IDS, AMMO_DROP_AMOUNTS, CRATE_RESERVE_MAGAZINES, getWeapon, getActiveSlot, getActiveWeapon,
+  createWeaponSlot, createStartingInventory
+} from './weapons';
+import { POWER_UPS, POWER_UP_TYPES, hasPowerUp, getPickupColor } from './pickups';
+import { ZombieType, DeathEffects, getArchetype } from './zombies';
+import { getWaveComposition } from './waves';
+import { DEFAULT_GAME_MODE, getGameMode } from './modes';
+import { createDirector, updateDirector, pickSpawnIndex } from './director';
+import { DEFAULT_DIFFICULTY, getRunModifiers } from './difficulty';
+import { getEnemyProjectile } from './enemyProjectiles';
+import { BOSS_ATTACKS, BOSS_VARIANTS, bossVariantForWave, bossPhaseFor } from './bosses';
+import { PERKS, PERK_IDS, countPerk, getMagazineSize, getReloadTime, getDamageMultiplier, getPickupReach } from './perks';
+import { applyStatus, isDisabled, statusSpeedMultiplier, statusDamageTakenMultiplier, tickStatusEffects } from './statusEffects';
+
+// Headless game rules. Nothing in here touches the DOM, React or wall-clock time,
+// so a run can be stepped from a canvas loop, a test or plain Node alike.
+
+const createPlayerStats = (): PlayerStats => ({
+  score: 0,
+  kills: 0,
+  shotsFired: 0,
+  shotsHit: 0,
+  damageTaken: 0,
+  downs: 0,
+  revives: 0
+});
+
+export const createStats = (players = 1): GameStats => ({
+  score: 0,
+  wave: 1,
+  kills: 0,
+  timeSurvived: 0,
+  accuracy: 0,
+  shotsFired: 0,
+  shotsHit: 0,
+  players: Array.from({ length: players }, createPlayerStats)
+});
+
+// The daily challenge ignores the picked map, mode and modifiers: everyone plays the same run for the same seed
+export const createRunConfig = (
+  daily = false,
+  mapId = DEFAULT_MAP_ID,
+  mode: GameMode = DEFAULT_GAME_MODE,
+  difficulty: DifficultyId = DEFAULT_DIFFICULTY,
+  mutators: MutatorId[] = [],
+  players = 1
+): RunConfig => {
+  const seed = daily ? dailySeed() : randomSeed();
+  return {
+    seed,
+    daily,
+    mapId: daily ? BUNDLED_MAPS[seed % BUNDLED_MAPS.length].id : mapId,
+    mode: daily ? DEFAULT_GAME_MODE : mode,
+    difficulty: daily ? DEFAULT_DIFFICULTY : difficulty,
+    mutators: daily ? [] : [...mutators],
+    players
+  };
+};
+
+// Most spare ammo a gun may carry in the given mode
+const reserveCap = (mode: GameMode, slot: WeaponSlot, player?: Player) => {
+  const { reserveMagazines } = getGameMode(mode);
+  if (reserveMagazines === undefined) return Infinity;
+  const weapon = getWeapon(slot.weapon);
+  return reserveMagazines * (player ? getMagazineSize(player, weapon) : weapon.magazineSize);
+};
+
+// Player `index` of the run, set up for its difficulty and mode. Later players start a
+// little to the right of the first.
+const createPlayer = (index: number, start: Point, config: RunConfig, modifiers: RunModifiers): Player => {
+  const inventory = createStartingInventory();
+  inventory.forEach(slot => {
+    slot.reserve = Math.min(Math.round(slot.reserve * modifiers.startingAmmo), reserveCap(config.mode, slot));
+  });
+  const maxHp = Math.round(PLAYER_MAX_HP * modifiers.playerHp);
+
+  return {
+    id: index === 0 ? 'player' : `player-${index + 1}`,
+    x: start.x + index * 40,
+    y: start.y,
+    dx: 0,
+    dy: 0,
+    radius: 15,
+    color: PLAYER_COLORS[index % PLAYER_COLORS.length],
+    hp: maxHp,
+    maxHp,
+    damage: getWeapon(inventory[0].weapon).damage,
+    speed: PLAYER_SPEED,
+    angle: 0,
+    inventory,
+    activeSlot: 0,
+    throwable: 'grenade',
+    throwables: STARTING_GRENADES,
+    armor: 0,
+    maxArmor: PLAYER_MAX_ARMOR,
+    invulnerableUntil: -Infinity,
+    powerUps: [],
+    perks: [],
+    effects: [],
+    isReloading: false,
+    reloadProgress: 0,
+    reloadStartTime: 0,
+    lastShot: -Infinity,
+    lastThrow: -Infinity,
+    condition: 'up',
+    downedAt: -Infinity,
+    reviveProgress: 0
+  };
+};
+
+export const createInitialState = (
+  config: RunConfig = createRunConfig(),
+  viewWidth = 0,
+  viewHeight = 0
+): SimulationState => {
+  const map = getMap(config.mapId);
+  const { playerStart } = map;
+  const rules = getGameMode(config.mode);
+  const modifiers = getRunModifiers(config.difficulty, config.mutators);
+  const obstacles = map.obstacles.map(o => ({ ...o }));
+  const players = Array.from({ length: config.players }, (_, i) => createPlayer(i, playerStart, config, modifiers));
+  players.slice(1).forEach(player => resolveObstacles(player, obstacles));
+  const centerX = players.reduce((sum, player) => sum + player.x, 0) / players.length;
+
+  return {
+    players,
+    bullets: [],
+    zombies: [],
+    particles: [],
+    acidPools: map.hazards.map((hazard, i) => ({
+      id: `hazard-${i}`,
+      x: hazard.x,
+      y: hazard.y,
+      radius: hazard.radius,
+      creationTime: 0,
+      duration: Infinity,
+      permanent: true
+    })),
+    pickups: [
+      ...map.ammoCaches.map((cache, i): Pickup => ({
+        id: `cache-${i}`,
+        kind: 'ammo',
+        x: cache.x,
+        y: cache.y,
+        radius: 12,
+        expiresAt: Infinity,
+        ammoType: cache.ammoType,
+        amount: cache.amount
+      })),
+      ...map.weaponCrates.map((cache, i): Pickup => ({
+        id: `crate-${i}`,
+        kind: 'weapon',
+        x: cache.x,
+        y: cache.y,
+        radius: 14,
+        expiresAt: Infinity,
+        weapon: cache.weapon
+      }))
+    ],
+    throwables: [],
+    fireZones: [],
+    enemyProjectiles: [],
+    perkOffer: [],
+    wave: countdownTo(rules.waves, 1, 0),
+    director: createDirector(),
+    modifiers,
+    obstacles,
+    world: {
+      width: map.width,
+      height: map.height,
+      theme: map.theme,
+      spawnZones: map.spawnZones
+    },
+    camera: {
+      x: centerX - (viewWidth / 2),
+      y: playerStart.y - (viewHeight / 2),
+      width: viewWidth,
+      height: viewHeight,
+      zoom: 1
+    },
+    stats: createStats(config.players),
+    config,
+    rngState: config.seed,
+    time: 0,
+    lastSpawn: 0,
+    lastHorde: 0,
+    isGameOver: false,
+    nextId: 0
+  };
+};
+
+export const createIdleInput = (): SimulationInput => ({
+  move: { x: 0, y: 0 },
+  aim: { x: 0, y: 0 },
+  fire: false,
+  autoFire: false,
+  reload: false,
+  weaponSlot: null,
+  throw: null,
+  perk: null
+});
+
+const nextId = (state: SimulationState, prefix: string) => `${prefix}-${state.nextId++}`;
+
+// Scratch structures reused across ticks. The grid is rebuilt from state.zombies before
+// every use, so it never needs to be saved or cloned with the state. It is sized to the
+// current map and only reallocated when a run starts on a map of another size.
+let zombieGrid = createSpatialGrid<Zombie>(0, 0, GRID_CELL_SIZE);
+let gridWorld = { width: 0, height: 0 };
+const nearby: Zombie[] = [];
+
+const syncZombieGrid = (state: SimulationState) => {
+  const { world } = state;
+  if (gridWorld.width !== world.width || gridWorld.height !== world.height) {
+    zombieGrid = createSpatialGrid<Zombie>(world.width, world.height, GRID_CELL_SIZE);
+    gridWorld = { width: world.width, height: world.height };
+  }
+};
+
+// Derived from the obstacle list, rebuilt only when that list changes
+let flowField: FlowField | null = null;
+
+const getFlowField = (state: SimulationState) => {
+  if (!flowField || flowField.obstacles !== state.obstacles) {
+    flowField = createFlowField(state.world.width, state.world.height, FLOW_CELL_SIZE, state.obstacles, FLOW_CLEARANCE);
+  }
+  return flowField;
+};
+
+const clampToWorld = (state: SimulationState, e: Point & { radius: number }) => {
+  e.x = Math.max(e.radius, Math.min(state.world.width - e.radius, e.x));
+  e.y = Math.max(e.radius, Math.min(state.world.height - e.radius, e.y));
+};
+
+// The closest player still standing; zombies ignore the downed and the dead
+const nearestPlayer = (state: SimulationState, from: Point): Player | null => {
+  let nearest: Player | null = null;
+  let best = Infinity;
+  state.players.forEach(player => {
+    if (player.condition !== 'up') return;
+    const dist = Math.hypot(player.x - from.x, player.y - from.y);
+    if (dist < best) {
+      best = dist;
+      nearest = player;
+    }
+  });
+  return nearest;
+};
+
+// Where hordes and bosses gather: the first player still standing
+const focusPlayer = (state: SimulationState) => state.players.find(player => player.condition === 'up') ?? state.players[0];
+
+// --- Rules ---
+
+export const startReload = (state: SimulationState, player: Player) => {
+  const slot = getActiveSlot(player);
+  if (player.isReloading || slot.ammo >= getMagazineSize(player, getWeapon(slot.weapon)) || slot.reserve <= 0) return;
+
+  player.isReloading = true;
+  player.reloadStartTime = state.time;
+};
+
+export const switchWeapon = (state: SimulationState, player: Player, slotIndex: number) => {
+  if (slotIndex === player.activeSlot || !player.inventory[slotIndex]) return;
+
+  // Swapping guns abandons a reload in progress
+  player.activeSlot = slotIndex;
+  player.isReloading = false;
+  player.reloadProgress = 0;
+  player.damage = getActiveWeapon(player).damage;
+};
+
+// A gun already carried just tops up its reserve. A new one takes a free slot, or replaces
+// the active gun when every slot is taken, and is equipped right away.
+const pickUpWeapon = (state: SimulationState, player: Player, id: WeaponId) => {
+  const weapon = getWeapon(id);
+  const reserve = weapon.magazineSize * CRATE_RESERVE_MAGAZINES;
+
+  const carried = player.inventory.findIndex(slot => slot.weapon === id);
+  if (carried !== -1) {
+    player.inventory[carried].reserve += reserve;
+    return;
+  }
+
+  if (player.inventory.length < MAX_WEAPON_SLOTS) {
+    player.inventory.push(createWeaponSlot(id, reserve));
+    switchWeapon(state, player, player.inventory.length - 1);
+  } else {
+    player.inventory[player.activeSlot] = createWeaponSlot(id, reserve);
+    player.isReloading = false;
+    player.reloadProgress = 0;
+    player.damage = weapon.damage;
+  }
+};
+
+const shoot = (state: SimulationState, player: Player, target: Point) => {
+  const now = state.time;
+
+  // Check reload
+  if (player.isReloading || isDisabled(player)) return;
+
+  // Check Ammo
+  const slot = getActiveSlot(player);
+  if (slot.ammo <= 0) {
+    startReload(state, player);
+    return;
+  }
+
+  const weapon = getWeapon(slot.weapon);
+  const fireRate = weapon.fireRate * (hasPowerUp(player, 'rapidFire') ? RAPID_FIRE_MULTIPLIER : 1);
+  if (now - player.lastShot < fireRate) return; // Fire rate limit
+
+  const owner = state.players.indexOf(player);
+  player.lastShot = now;
+  state.stats.shotsFired += weapon.pellets;
+  state.stats.players[owner].shotsFired += weapon.pellets;
+  if (!hasPowerUp(player, 'infiniteAmmo')) slot.ammo--;
+  const damage = weapon.damage * getDamageMultiplier(player) * state.modifiers.damageDealt * (hasPowerUp(player, 'doubleDamage') ? DOUBLE_DAMAGE_MULTIPLIER : 1);
+
+  const angle = Math.atan2(target.y - player.y, target.x - player.x);
+
+  // Update player angle immediately for visual feedback
+  player.angle = angle;
+
+  for (let i = 0; i < weapon.pellets; i++) {
+    const spread = weapon.spread > 0 ? randomRange(state, -weapon.spread / 2, weapon.spread / 2) : 0;
+    const heading = angle + spread;
+
+    const bullet: Bullet = {
+      id: nextId(state, 'bullet'),
+      x: player.x + Math.cos(angle) * 20,
+      y: player.y + Math.sin(angle) * 20,
+      dx: Math.cos(heading) * weapon.projectileSpeed,
+      dy: Math.sin(heading) * weapon.projectileSpeed,
+      radius: 4,
+      color: weapon.color,
+      hp: 1,
+      maxHp: 1,
+      damage,
+      speed: weapon.projectileSpeed,
+      createdAt: now,
+      range: weapon.range,
+      pierce: weapon.penetration,
+      hits: [],
+      onHit: weapon.onHit,
+      owner
+    };
+
+    state.bullets.push(bullet);
+  }
+};
+
+// Lobs the carried throwable at `target`, landing short of it when out of range
+const throwItem = (state: SimulationState, player: Player, target: Point) => {
+  if (player.throwables <= 0 || state.time - player.lastThrow < THROW_COOLDOWN || isDisabled(player)) return;
+
+  player.lastThrow = state.time;
+  player.throwables--;
+
+  const angle = Math.atan2(target.y - player.y, target.x - player.x);
+  const reach = Math.min(Math.hypot(target.x - player.x, target.y - player.y), THROW_RANGE);
+  player.angle = angle;
+
+  state.throwables.push({
+    id: nextId(state, player.throwable),
+    type: player.throwable,
+    x: player.x,
+    y: player.y,
+    origin: { x: player.x, y: player.y },
+    target: { x: player.x + Math.cos(angle) * reach, y: player.y + Math.sin(angle) * reach },
+    thrownAt: state.time,
+    flightTime: Math.max(1, reach / THROW_SPEED),
+    height: 0,
+    landed: false,
+    owner: state.players.indexOf(player)
+  });
+};
+
+// Moves throwables along their arc. Molotovs burst into a fire zone where they land;
+// grenades sit until the fuse runs out.
+const updateThrowables = (state: SimulationState, events: SimulationEvent[]) => {
+  const now = state.time;
+  for (let i = state.throwables.length - 1; i >= 0; i--) {
+    const t = state.throwables[i];
+
+    if (!t.landed) {
+      const progress = Math.min(1, (now - t.thrownAt) / t.flightTime);
+      const x = t.origin.x + (t.target.x - t.origin.x) * progress;
+      const y = t.origin.y + (t.target.y - t.origin.y) * progress;
+      if (hitsAnyObstacle({ x, y, radius: 4 }, state.obstacles)) {
+        t.landed = true; // Bounced off a wall, drops where it is
+      } else {
+        t.x = x;
+        t.y = y;
+        t.height = Math.sin(progress * Math.PI) * t.flightTime * THROW_SPEED * 0.25;
+        if (progress >= 1) t.landed = true;
+      }
+      if (t.landed) t.height = 0;
+    }
+
+    if (t.type === 'molotov' && t.landed) {
+      state.fireZones.push({
+        id: nextId(state, 'fire'),
+        x: t.x,
+        y: t.y,
+        radius: FIRE_ZONE_RADIUS,
+        creationTime: now,
+        duration: FIRE_ZONE_DURATION,
+        lastTick: -Infinity,
+        owner: t.owner
+      });
+      createParticles(state, t.x, t.y, '#f97316', 15);
+      state.throwables.splice(i, 1);
+    } else if (t.type === 'grenade' && now - t.thrownAt >= GRENADE_FUSE) {
+      createExplosion(state, t.x, t.y, events, t.owner);
+      state.throwables.splice(i, 1);
+    }
+  }
+};
+
+// Up to PERK_OFFER_SIZE different perks that can still be stacked. Perks go to the whole
+// team, so a perk is only offered while every player can take another stack of it.
+const rollPerkOffer = (state: SimulationState): PerkId[] => {
+  const available = PERK_IDS.filter(id => state.players.every(player => countPerk(player, id) < PERKS[id].maxStacks));
+  const offer: PerkId[] = [];
+  while (offer.length < PERK_OFFER_SIZE && available.length > 0) {
+    offer.push(available.splice(randomInt(state, available.length), 1)[0]);
+  }
+  return offer;
+};
+
+export const choosePerk = (state: SimulationState, index: number) => {
+  const id = state.perkOffer[index];
+  if (!id) return;
+
+  state.perkOffer = [];
+  const { amount, maxStacks } = PERKS[id];
+  state.players.forEach(player => {
+    if (countPerk(player, id) >= maxStacks) return;
+    player.perks.push(id);
+    if (id === 'maxHp') {
+      player.maxHp += amount;
+      if (getGameMode(state.config.mode).healing && player.condition === 'up') player.hp += amount;
+    } else if (id === 'moveSpeed') {
+      player.speed += PLAYER_SPEED * amount;
+    } else if (id === 'armor') {
+      player.maxArmor += amount;
+      player.armor = player.maxArmor;
+    }
+  });
+};
+
+// Straight shots fly at `target` until they hit something or run out of range;
+// lobbed ones arc over and land on it
+export const fireEnemyProjectile = (state: SimulationState, type: EnemyProjectileType, from: Point, target: Point) => {
+  const kind = getEnemyProjectile(type);
+  const angle = Math.atan2(target.y - from.y, target.x - from.x);
+  const reach = Math.min(Math.hypot(target.x - from.x, target.y - from.y), kind.range);
+
+  state.enemyProjectiles.push({
+    id: nextId(state, type),
+    type,
+    radius: kind.radius,
+    x: from.x,
+    y: from.y,
+    dx: Math.cos(angle) * kind.speed,
+    dy: Math.sin(angle) * kind.speed,
+    origin: { x: from.x, y: from.y },
+    target: { x: from.x + Math.cos(angle) * reach, y: from.y + Math.sin(angle) * reach },
+    createdAt: state.time,
+    flightTime: Math.max(1, (reach / kind.speed) * REFERENCE_FRAME_MS),
+    height: 0,
+    range: kind.range
+  });
+};
+
+// Ranged zombies telegraph with a wind-up, then fire at where the nearest player is at that moment
+const updateZombieAttacks = (state: SimulationState) => {
+  const now = state.time;
+
+  state.zombies.forEach(z => {
+    const { attack } = getArchetype(z.type);
+    if (!attack || isDisabled(z)) return;
+    const player = nearestPlayer(state, z);
+
+    if (z.windUpStart !== undefined) {
+      if (now - z.windUpStart < attack.windUp) return;
+      z.windUpStart = undefined;
+      z.lastAttack = now;
+      if (player) fireEnemyProjectile(state, attack.projectile, z, player);
+      return;
+    }
+
+    if (!player || now - (z.lastAttack ?? -Infinity) < attack.cooldown) return;
+    if (Math.hypot(player.x - z.x, player.y - z.y) > attack.range) return;
+    if (!hasLineOfSight(z, player, state.obstacles)) return;
+    z.windUpStart = now;
+  });
+};
+
+const updateEnemyProjectiles = (state: SimulationState, frames: number, events: SimulationEvent[]) => {
+  const now = state.time;
+
+  for (let i = state.enemyProjectiles.length - 1; i >= 0; i--) {
+    const p = state.enemyProjectiles[i];
+    const kind = getEnemyProjectile(p.type);
+    let landed = false;
+
+    if (kind.lobbed) {
+      const progress = Math.min(1, (now - p.createdAt) / p.flightTime);
+      p.x = p.origin.x + (p.target.x - p.origin.x) * progress;
+      p.y = p.origin.y + (p.target.y - p.origin.y) * progress;
+      p.height = Math.sin(progress * Math.PI) * p.flightTime * 0.08;
+      landed = progress >= 1;
+    } else {
+      p.x += p.dx * frames;
+      p.y += p.dy * frames;
+      p.range -= kind.speed * frames;
+    }
+
+    if (hitsAnyObstacle(p, state.obstacles)) {
+      createParticles(state, p.x, p.y, kind.color, 4);
+      state.enemyProjectiles.splice(i, 1);
+      continue;
+    }
+
+    // Lobbed ones only hurt where they come down; straight ones on any contact
+    const player = landed || !kind.lobbed
+      ? state.players.find(candidate => candidate.condition === 'up' && Math.hypot(candidate.x - p.x, candidate.y - p.y) < candidate.radius + p.radius)
+      : undefined;
+    if (player) {
+      damagePlayer(state, player, { amount: kind.damage, type: 'projectile', source: p.type }, events);
+      if (kind.effect) applyStatus(player, kind.effect, now);
+      createParticles(state, p.x, p.y, kind.color, 6);
+      state.enemyProjectiles.splice(i, 1);
+      continue;
+    }
+
+    if (landed) {
+      if (kind.splash) {
+        state.acidPools.push({
+          id: nextId(state, 'pool'),
+          x: p.x,
+          y: p.y,
+          radius: kind.splash.radius,
+          creationTime: now,
+          duration: kind.splash.duration
+        });
+      }
+      createParticles(state, p.x, p.y, kind.color, 6);
+      state.enemyProjectiles.splice(i, 1);
+    } else if (!kind.lobbed && p.range <= 0) {
+      state.enemyProjectiles.splice(i, 1);
+    }
+  }
+};
+
+// Runs boss phases and attacks. Called after steering, so a charge overrides the
+// boss's normal movement for the tick.
+const updateBosses = (state: SimulationState, frames: number, events: SimulationEvent[]) => {
+  const now = state.time;
+
+  state.zombies.forEach(z => {
+    const boss = z.boss;
+    if (!boss || isDisabled(z)) return;
+    const target = nearestPlayer(state, z);
+    if (!target) return;
+    const variant = BOSS_VARIANTS[boss.variant];
+
+    const phase = Math.max(boss.phase, bossPhaseFor(z));
+    if (phase !== boss.phase) {
+      boss.phase = phase;
+      z.speed = getArchetype('boss').speed * variant.phases[phase].speedMultiplier;
+      createParticles(state, z.x, z.y, '#dc2626', 25);
+    }
+    const { attacks, cooldown } = variant.phases[boss.phase];
+
+    if (!boss.attack) {
+      if (now - boss.lastAttack < cooldown) return;
+      boss.attack = attacks[randomInt(state, attacks.length)];
+      boss.attackStart = now;
+      return;
+    }
+
+    const elapsed = now - boss.attackStart;
+    if (elapsed < BOSS_ATTACKS[boss.attack].windUp) return; // Still telegraphing
+
+    const finish = () => {
+      boss.attack = null;
+      boss.charge = null;
+      boss.lastAttack = now;
+    };
+
+    switch (boss.attack) {
+      case 'charge': {
+        const { duration, speed, damage, knockback } = BOSS_ATTACKS.charge;
+        if (!boss.charge) {
+          const angle = Math.atan2(target.y - z.y, target.x - z.x);
+          boss.charge = { x: Math.cos(angle), y: Math.sin(angle) };
+        }
+        z.x += boss.charge.x * speed * frames;
+        z.y += boss.charge.y * speed * frames;
+        z.dx = 0;
+        z.dy = 0;
+        const hitWall = resolveObstacles(z, state.obstacles);
+        clampToWorld(state, z);
+
+        const player = state.players.find(candidate =>
+          candidate.condition === 'up' && Math.hypot(candidate.x - z.x, candidate.y - z.y) < candidate.radius + z.radius);
+        if (player) {
+          damagePlayer(state, player, { amount: damage, type: 'melee', source: 'charge', from: z, knockback }, events);
+          createParticles(state, player.x, player.y, '#ef4444', 15);
+          finish();
+        } else if (hitWall || elapsed >= BOSS_ATTACKS.charge.windUp + duration) {
+          if (hitWall) createParticles(state, z.x, z.y, '#94a3b8', 15);
+          finish();
+        }
+        break;
+      }
+      case 'slam': {
+        const { radius, damage, knockback } = BOSS_ATTACKS.slam;
+        state.players.forEach(player => {
+          if (player.condition !== 'up' || Math.hypot(player.x - z.x, player.y - z.y) >= radius + player.radius) return;
+          damagePlayer(state, player, { amount: damage, type: 'melee', source: 'slam', from: z, knockback }, events);
+          applyStatus(player, 'stunned', now);
+        });
+        for (let i = 0; i < 24; i++) {
+          const angle = (Math.PI * 2 / 24) * i;
+          createParticles(state, z.x + Math.cos(angle) * radius, z.y + Math.sin(angle) * radius, '#a8a29e', 1);
+        }
+        finish();
+        break;
+      }
+      case 'summon': {
+        const { count } = BOSS_ATTACKS.summon;
+        for (let i = 0; i < count; i++) {
+          const angle = (Math.PI * 2 / count) * i;
+          const minion = createZombie(state, 'walker', z.x + Math.cos(angle) * (z.radius + 30), z.y + Math.sin(angle) * (z.radius + 30));
+          resolveObstacles(minion, state.obstacles);
+          clampToWorld(state, minion);
+          state.zombies.push(minion);
+          state.wave.total++;
+          createParticles(state, minion.x, minion.y, '#6b21a8', 6);
+        }
+        finish();
+        break;
+      }
+      case 'acidSpray': {
+        const { count, spread } = BOSS_ATTACKS.acidSpray;
+        const aim = Math.atan2(target.y - z.y, target.x - z.x);
+        for (let i = 0; i < count; i++) {
+          const angle = aim - spread / 2 + (spread / (count - 1)) * i;
+          const from = { x: z.x + Math.cos(angle) * z.radius, y: z.y + Math.sin(angle) * z.radius };
+          fireEnemyProjectile(state, 'spit', from, { x: from.x + Math.cos(angle) * 100, y: from.y + Math.sin(angle) * 100 });
+        }
+        finish();
+        break;
+      }
+    }
+  });
+};
+
+// For auto-aim we want the absolute closest even if slightly off-screen.
+const findNearestZombie = (from: Point, maxRange = AUTO_AIM_RANGE): Zombie | null =>
+  findNearestInGrid(zombieGrid, from.x, from.y, maxRange, z => z.hp > 0);
+
+// A zombie of the given type with its stats scaled for the current wave
+const createZombie = (state: SimulationState, type: ZombieType, x: number, y: number, id = nextId(state, 'zombie')): Zombie => {
+  const archetype = getArchetype(type);
+  const scale = archetype.scaling(state.stats.wave);
+  const speed = archetype.speed + (archetype.speedVariance > 0 ? random(state) * archetype.speedVariance : 0);
+  return {
+    id,
+    x,
+    y,
+    dx: 0,
+    dy: 0,
+    radius: archetype.radius,
+    color: archetype.color,
+    hp: archetype.hp * scale * state.modifiers.zombieHp,
+    maxHp: archetype.hp * scale * state.modifiers.zombieHp,
+    damage: archetype.damage * scale,
+    speed: type === 'runner' ? speed * state.modifiers.runnerSpeed : speed,
+    effects: [],
+    type
+  };
+};
+
+// Bosses spawn a good distance from the players, set up as the variant this wave calls for
+const spawnBoss = (state: SimulationState) => {
+  const currentWave = state.stats.wave;
+  const angle = random(state) * Math.PI * 2;
+  const focus = focusPlayer(state);
+  const boss = createZombie(
+    state,
+    'boss',
+    focus.x + Math.cos(angle) * 600,
+    focus.y + Math.sin(angle) * 600,
+    `boss-${currentWave}`
+  );
+  const composition = getWaveComposition(currentWave, getGameMode(state.config.mode).waves);
+  const variant = BOSS_VARIANTS[composition.bossVariant ?? bossVariantForWave(currentWave)];
+  boss.color = variant.color;
+  boss.hp *= variant.hpMultiplier;
+  boss.maxHp = boss.hp;
+  boss.speed *= variant.phases[0].speedMultiplier;
+  boss.boss = {
+    variant: variant.id,
+    phase: 0,
+    attack: null,
+    attackStart: 0,
+    lastAttack: state.time, // Gives the players a moment before the first attack
+    charge: null
+  };
+  // Clamp boss to world, outside of any building
+  resolveObstacles(boss, state.obstacles);
+  clampToWorld(state, boss);
+
+  state.zombies.push(boss);
+};
+
+export const spawnZombie = (state: SimulationState, type: ZombieType, overrideX?: number, overrideY?: number) => {
+  if (type === 'boss') {
+    spawnBoss(state);
+    return;
+  }
+
+  // Spawn Location
+  let x, y;
+  if (overrideX !== undefined && overrideY !== undefined) {
+    x = overrideX;
+    y = overrideY;
+  } else if (state.world.spawnZones.length > 0) {
+    // Map-defined entrances, preferring the ones the players can't see
+    const cam = state.camera;
+    const viewWidth = cam.width / cam.zoom;
+    const viewHeight = cam.height / cam.zoom;
+    const zones = state.world.spawnZones;
+    const hidden = zones.filter(zone =>
+      zone.x + zone.width < cam.x || zone.x > cam.x + viewWidth ||
+      zone.y + zone.height < cam.y || zone.y > cam.y + viewHeight
+    );
+    const pool = hidden.length > 0 ? hidden : zones;
+    const zone = pool[randomInt(state, pool.length)];
+    x = zone.x + random(state) * zone.width;
+    y = zone.y + random(state) * zone.height;
+  } else {
+    // Spawn just outside camera view
+    const cam = state.camera;
+    const viewWidth = cam.width / cam.zoom;
+    const viewHeight = cam.height / cam.zoom;
+    const padding = 100;
+
+    // Randomize side: 0=Top, 1=Right, 2=Bottom, 3=Left
+    const side = randomInt(state, 4);
+
+    if (side === 0) { // Top
+      x = cam.x + random(state) * viewWidth;
+      y = cam.y - padding;
+    } else if (side === 1) { // Right
+      x = cam.x + viewWidth + padding;
+      y = cam.y + random(state) * viewHeight;
+    } else if (side === 2) { // Bottom
+      x = cam.x + random(state) * viewWidth;
+      y = cam.y + viewHeight + padding;
+    } else { // Left
+      x = cam.x - padding;
+      y = cam.y + random(state) * viewHeight;
+    }
+  }
+
+  // Clamp to World
+  x = Math.max(20, Math.min(state.world.width - 20, x));
+  y = Math.max(20, Math.min(state.world.height - 20, y));
+
+  const zombie = createZombie(state, type, x, y);
+
+  // Never spawn inside a building or car
+  resolveObstacles(zombie, state.obstacles);
+  clampToWorld(state, zombie);
+
+  state.zombies.push(zombie);
+};
+
+// Rushes in a chunk of the wave's queue, ringed around a player
+const triggerHorde = (state: SimulationState, events: SimulationEvent[]) => {
+  events.push({ type: 'horde', wave: state.stats.wave });
+
+  const { x: centerX, y: centerY } = focusPlayer(state);
+  const radius = 700; // Spawn circle radius (larger than the camera view)
+
+  const { queue } = state.wave;
+  const count = Math.min(queue.length, 15 + randomInt(state, 10));
+  for (let i = 0; i < count; i++) {
+    const angle = (Math.PI * 2 / count) * i;
+    // Off-map spots fall back to the regular spawn points
+    const spawnX = centerX + Math.cos(angle) * radius;
+    const spawnY = centerY + Math.sin(angle) * radius;
+    const inWorld = spawnX > 0 && spawnX < state.world.width && spawnY > 0 && spawnY < state.world.height;
+    spawnZombie(state, queue.shift()!, inWorld ? spawnX : undefined, inWorld ? spawnY : undefined);
+  }
+};
+
+// --- Waves ---
+
+const countdownTo = (table: WaveTable, wave: number, now: number): WaveState => ({
+  phase: 'countdown',
+  endsAt: now + table.countdown,
+  boss: getWaveComposition(wave, table).boss,
+  queue: [],
+  total: 0,
+  spawnInterval: 0,
+  hordesLeft: 0
+});
+
+// The wave's zombies in a shuffled order, the boss (if any) leading
+const buildWaveQueue = (state: SimulationState, wave: number): ZombieType[] => {
+  const composition = getWaveComposition(wave, getGameMode(state.config.mode).waves);
+  const queue: ZombieType[] = [];
+  Object.entries(composition.counts).forEach(([type, count]) => {
+    for (let i = 0; i < count; i++) queue.push(type as ZombieType);
+  });
+  for (let i = queue.length - 1; i > 0; i--) {
+    const j = randomInt(state, i + 1);
+    [queue[i], queue[j]] = [queue[j], queue[i]];
+  }
+  if (composition.boss) queue.unshift('boss');
+  return queue;
+};
+
+// Zombies the current wave still has to send or lose
+export const waveRemaining = (state: SimulationState) => state.wave.queue.length + state.zombies.length;
+
+/**
+ * Runs the wave state machine: countdown → active → cleared → intermission → countdown.
+ * Only active waves spawn, one queued zombie every spawnInterval plus the odd horde, and
+ * a wave is cleared once its queue is empty and its last zombie is dead.
+ */
+const updateWave = (state: SimulationState, frames: number, events: SimulationEvent[]) => {
+  const wave = state.wave;
+  const now = state.time;
+  const rules = getGameMode(state.config.mode);
+
+  switch (wave.phase) {
+    case 'countdown': {
+      if (now < wave.endsAt) return;
+      const composition = getWaveComposition(state.stats.wave, rules.waves);
+      wave.phase = 'active';
+      wave.endsAt = Infinity;
+      wave.queue = buildWaveQueue(state, state.stats.wave);
+      wave.total = wave.queue.length;
+      wave.spawnInterval = composition.spawnInterval;
+      wave.hordesLeft = composition.hordes;
+      state.lastSpawn = -Infinity;
+      state.lastHorde = now;
+      events.push({ type: 'wave', wave: state.stats.wave, boss: composition.boss });
+      return;
+    }
+    case 'active': {
+      if (wave.queue.length === 0 && state.zombies.length === 0) {
+        wave.phase = 'cleared';
+        wave.endsAt = now + rules.waves.cleared;
+        events.push({ type: 'waveCleared', wave: state.stats.wave });
+        if (state.stats.wave === rules.finalWave) return; // Won; step ends the run
+
+        // Wave break: an offer not taken by the next one is replaced
+        state.perkOffer = rollPerkOffer(state);
+        if (state.perkOffer.length > 0) {
+          events.push({ type: 'perkOffer', wave: state.stats.wave, options: [...state.perkOffer] });
+        }
+        return;
+      }
+
+      // Hordes come at random, or at the latest once only enough zombies for them are left.
+      // The permanent horde mutator sends one every time the cooldown runs out.
+      const { permanentHorde } = state.modifiers;
+      if ((wave.hordesLeft > 0 || permanentHorde) && wave.queue.length > 0 && now - state.lastHorde > HORDE_COOLDOWN) {
+        const chance = HORDE_CHANCE * state.director.decision.hordeChance;
+        if (permanentHorde || random(state) < chance * frames || wave.queue.length <= wave.hordesLeft * 15) {
+          wave.hordesLeft = Math.max(0, wave.hordesLeft - 1);
+          state.lastHorde = now;
+          triggerHorde(state, events);
+        }
+      }
+
+      if (wave.queue.length > 0 && now - state.lastSpawn > wave.spawnInterval * state.modifiers.spawnInterval * state.director.decision.spawnInterval) {
+        spawnZombie(state, wave.queue.splice(pickSpawnIndex(state), 1)[0]);
+        state.lastSpawn = now;
+      }
+      return;
+    }
+    case 'cleared':
+      if (now < wave.endsAt) return;
+      wave.phase = 'intermission';
+      wave.endsAt = now + rules.waves.intermission;
+      return;
+    case 'intermission':
+      if (now < wave.endsAt) return;
+      state.stats.wave++;
+      state.wave = countdownTo(rules.waves, state.stats.wave, now);
+      return;
+  }
+};
+
+export const createParticles = (state: SimulationState, x: number, y: number, color: string, count: number) => {
+  for (let i = 0; i < count; i++) {
+    const angle = random(state) * Math.PI * 2;
+    const speed = random(state) * 4;
+    state.particles.push({
+      id: nextId(state, 'p'),
+      x,
+      y,
+      dx: Math.cos(angle) * speed,
+      dy: Math.sin(angle) * speed,
+      life: 1.0,
+      maxLife: 1.0,
+      color,
+      size: random(state) * 3 + 1
+    });
+  }
+};
+
+// `owner` is the player whose grenade it was; zombie explosions have none
+export const createExplosion = (state: SimulationState, x: number, y: number, events: SimulationEvent[], owner?: number) => {
+  createParticles(state, x, y, '#fb923c', 30);
+  createParticles(state, x, y, '#ef4444', 20);
+
+  const from = { x, y };
+  state.players.forEach(player => {
+    if (player.condition !== 'up' || Math.hypot(player.x - x, player.y - y) >= EXPLOSION_RADIUS) return;
+    damagePlayer(state, player, { amount: EXPLOSION_PLAYER_DAMAGE, type: 'explosion', source: 'explosion', from, knockback: EXPLOSION_KNOCKBACK }, events);
+  });
+
+  queryRadius(zombieGrid, x, y, EXPLOSION_RADIUS).forEach(z => {
+    damageZombie(z, { amount: EXPLOSION_DAMAGE, type: 'explosion', source: 'explosion', from, knockback: EXPLOSION_KNOCKBACK, owner });
+    if (z.hp > 0) applyStatus(z, 'stunned', state.time);
+  });
+};
+
+// Pushes away from `from`; the push fades as steering (zombies) or KNOCKBACK_DECAY (player) wins out
+const knockBack = (entity: Entity, from: Point, strength: number) => {
+  const angle = Math.atan2(entity.y - from.y, entity.x - from.x);
+  entity.dx += Math.cos(angle) * strength;
+  entity.dy += Math.sin(angle) * strength;
+};
+
+/**
+ * All damage to a player goes through here. Invulnerability blocks it, status effects
+ * scale it and armor takes its share of hits. A hit also starts the i-frames and knocks
+ * the player back. Going down is not decided here: step checks it once, after everything
+ * that can hurt has run.
+ */
+const damagePlayer = (state: SimulationState, player: Player, damage: Damage, events: SimulationEvent[]) => {
+  const hit = damage.type !== 'effect';
+  if (player.condition !== 'up' || hasPowerUp(player, 'invulnerability')) return;
+  if (hit && state.time < player.invulnerableUntil) return;
+
+  let amount = damage.amount * state.modifiers.damageTaken * statusDamageTakenMultiplier(player);
+  if (amount <= 0) return;
+  if (hit) {
+    const absorbed = Math.min(player.armor, amount * ARMOR_ABSORPTION);
+    player.armor -= absorbed;
+    amount -= absorbed;
+    player.invulnerableUntil = state.time + PLAYER_IFRAMES;
+    if (damage.from && damage.knockback) knockBack(player, damage.from, damage.knockback);
+  }
+
+  const index = state.players.indexOf(player);
+  player.hp -= amount;
+  state.stats.players[index].damageTaken += amount;
+  state.director.recentDamage += amount;
+  events.push({ type: 'damage', player: index, amount, damageType: damage.type, source: damage.source });
+};
+
+// Bosses are too heavy to knock back. Deaths are collected once per tick in step.
+const damageZombie = (z: Zombie, damage: Damage) => {
+  z.hp -= damage.amount;
+  if (damage.owner !== undefined) z.lastHitBy = damage.owner;
+  if (damage.from && damage.knockback && !z.boss) knockBack(z, damage.from, damage.knockback);
+};
+
+// Rolls what's inside a dropped pickup of the given kind
+const spawnPickup = (state: SimulationState, kind: PickupKind, x: number, y: number) => {
+  const base = { id: nextId(state, kind), x, y, expiresAt: state.time + PICKUP_LIFETIME };
+  let pickup: Pickup;
+
+  switch (kind) {
+    case 'ammo': {
+      // Drops match the nearest player's gun, so they are never fed ammo they can't use
+      const { ammoType } = getActiveWeapon(nearestPlayer(state, base) ?? state.players[0]);
+      const [min, max] = AMMO_DROP_AMOUNTS[ammoType];
+      pickup = { ...base, kind, radius: 12, ammoType, amount: min + randomInt(state, max - min) };
+      break;
+    }
+    case 'medkit':
+      pickup = { ...base, kind, radius: 12, amount: MEDKIT_HEAL };
+      break;
+    case 'armor':
+      pickup = { ...base, kind, radius: 12, amount: ARMOR_PLATE };
+      break;
+    case 'weapon':
+      pickup = { ...base, kind, radius: 14, weapon: WEAPON_IDS[randomInt(state, WEAPON_IDS.length)] };
+      break;
+    case 'throwable': {
+      const types: ThrowableType[] = ['grenade', 'molotov'];
+      pickup = { ...base, kind, radius: 10, type: types[randomInt(state, types.length)], count: 1 };
+      break;
+    }
+    case 'powerUp':
+      pickup = { ...base, kind, radius: 14, powerUp: POWER_UP_TYPES[randomInt(state, POWER_UP_TYPES.length)] };
+      break;
+  }
+
+  state.pickups.push(pickup);
+};
+
+// Modes without healing drop neither medkits nor armor
+const dropLoot = (state: SimulationState, z: Zombie) => {
+  if (!getGameMode(state.config.mode).drops) return;
+  const table = getArchetype(z.type).drops;
+  if (random(state) >= table.chance * state.modifiers.dropChance * state.director.decision.dropChance) return;
+
+  const entries = state.modifiers.ammoDrops ? table.entries : table.entries.filter(entry => entry.kind !== 'ammo');
+  if (entries.length === 0) return;
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random(state) * totalWeight;
+  const entry = entries.find(candidate => (roll -= candidate.weight) < 0) ?? entries[entries.length - 1];
+  spawnPickup(state, entry.kind, z.x, z.y);
+};
+
+// Applies a pickup the player walked over. Returns false when it has to stay on the
+// ground, e.g. ammo no carried gun has room for or a medkit at full health.
+const collectPickup = (state: SimulationState, player: Player, pickup: Pickup): boolean => {
+  switch (pickup.kind) {
+    case 'ammo': {
+      // Goes to the active gun if it takes this ammo and has room, otherwise the first one
+      // that does. Under a reserve cap only what fits is taken; the rest stays on the ground.
+      const slots = [getActiveSlot(player), ...player.inventory];
+      const slot = slots.find(s =>
+        getWeapon(s.weapon).ammoType === pickup.ammoType && s.reserve < reserveCap(state.config.mode, s, player));
+      if (!slot) return false;
+      const taken = Math.min(pickup.amount, reserveCap(state.config.mode, slot, player) - slot.reserve);
+      slot.reserve += taken;
+      pickup.amount -= taken;
+      return pickup.amount <= 0;
+    }
+    case 'medkit':
+      if (player.hp >= player.maxHp || !getGameMode(state.config.mode).healing) return false;
+      player.hp = Math.min(player.maxHp, player.hp + pickup.amount);
+      return true;
+    case 'armor':
+      if (player.armor >= player.maxArmor) return false;
+      player.armor = Math.min(player.maxArmor, player.armor + pickup.amount);
+      applyStatus(player, 'shielded', state.time); // Strapping on a plate briefly halves incoming damage
+      return true;
+    case 'weapon':
+      pickUpWeapon(state, player, pickup.weapon);
+      return true;
+    case 'throwable': {
+      // Only into an empty slot or onto a stack of the same kind
+      if (player.throwables > 0 && player.throwable !== pickup.type) return false;
+      const taken = Math.min(pickup.count, MAX_THROWABLES - player.throwables);
+      if (taken <= 0) return false;
+      player.throwable = pickup.type;
+      player.throwables += taken;
+      pickup.count -= taken;
+      return pickup.count <= 0;
+    }
+    case 'powerUp': {
+      // Picking up a running power-up restarts its timer
+      const { duration } = POWER_UPS[pickup.powerUp];
+      player.powerUps = player.powerUps.filter(active => active.type !== pickup.powerUp);
+      player.powerUps.push({ type: pickup.powerUp, expiresAt: state.time + duration, duration });
+      return true;
+    }
+  }
+};
+
+const killZombie = (state: SimulationState, z: Zombie, events: SimulationEvent[]) => {
+  const archetype = getArchetype(z.type);
+  state.stats.kills++;
+
+  const effects: DeathEffects = {
+    explode: at => createExplosion(state, at.x, at.y, events),
+    acidPool: (at, radius, duration) => {
+      state.acidPools.push({
+        id: nextId(state, 'pool'),
+        x: at.x,
+        y: at.y,
+        radius,
+        creationTime: state.time,
+        duration
+      });
+    },
+    particles: (at, color, count) => createParticles(state, at.x, at.y, color, count)
+  };
+  archetype.onDeath(z, effects);
+  if (state.modifiers.explosiveDeaths && z.type !== 'exploder') effects.explode(z);
+
+  dropLoot(state, z);
+  const points = Math.round(archetype.score * state.modifiers.scoreMultiplier);
+  state.stats.score += points;
+
+  const killer = z.lastHitBy === undefined ? undefined : state.stats.players[z.lastHitBy];
+  if (killer) {
+    killer.kills++;
+    killer.score += points;
+  }
+};
+
+// --- Step ---
+
+const endRun = (state: SimulationState, outcome: RunOutcome, events: SimulationEvent[]) => {
+  state.isGameOver = true;
+  state.stats.timeSurvived = state.time / 1000;
+  events.push({ type: 'gameOver', stats: state.stats, outcome });
+  return events;
+};
+
+// Timers, reloading and movement for one player still standing
+const updatePlayer = (state: SimulationState, player: Player, input: SimulationInput, frames: number) => {
+  const now = state.time;
+  const rules = getGameMode(state.config.mode);
+
+  // Reloading Logic
+  if (input.reload) startReload(state, player);
+
+  if (input.weaponSlot !== null) switchWeapon(state, player, input.weaponSlot);
+
+  if (player.isReloading) {
+    const slot = getActiveSlot(player);
+    const weapon = getWeapon(slot.weapon);
+    player.reloadProgress = (now - player.reloadStartTime) / getReloadTime(player, weapon);
+    if (player.reloadProgress >= 1) {
+      player.isReloading = false;
+      player.reloadProgress = 0;
+
+      const needed = getMagazineSize(player, weapon) - slot.ammo;
+      const taken = rules.infiniteAmmo ? needed : Math.min(needed, slot.reserve);
+      slot.ammo += taken;
+      if (!rules.infiniteAmmo) slot.reserve -= taken;
+    }
+  }
+
+  let moveX = input.move.x;
+  let moveY = input.move.y;
+
+  const len = Math.hypot(moveX, moveY);
+  if (len > 1) {
+    moveX /= len;
+    moveY /= len;
+  }
+
+  const speed = player.speed * (hasPowerUp(player, 'speedBoost') ? SPEED_BOOST_MULTIPLIER : 1) * statusSpeedMultiplier(player);
+  player.x += (moveX * speed + player.dx) * frames;
+  player.y += (moveY * speed + player.dy) * frames;
+  const knockbackLeft = Math.pow(KNOCKBACK_DECAY, frames);
+  player.dx *= knockbackLeft;
+  player.dy *= knockbackLeft;
+
+  // Slide along obstacles, then clamp to WORLD size
+  resolveObstacles(player, state.obstacles);
+  clampToWorld(state, player);
+};
+
+// Shooting and throwing for one player still standing
+const playerAttacks = (state: SimulationState, player: Player, input: SimulationInput) => {
+  if (input.fire) {
+    shoot(state, player, input.aim);
+  }
+
+  if (input.throw === 'aim') {
+    throwItem(state, player, input.aim);
+  } else if (input.throw === 'auto') {
+    rebuildGrid(zombieGrid, state.zombies);
+    const nearest = findNearestZombie(player, THROW_RANGE);
+    throwItem(state, player, nearest ?? {
+      x: player.x + Math.cos(player.angle) * THROW_RANGE / 2,
+      y: player.y + Math.sin(player.angle) * THROW_RANGE / 2
+    });
+  }
+
+  if (input.autoFire) {
+    rebuildGrid(zombieGrid, state.zombies);
+    const nearest = findNearestZombie(player);
+    if (nearest) {
+      shoot(state, player, nearest);
+    } else {
+      shoot(state, player, {
+        x: player.x + Math.cos(player.angle) * 100,
+        y: player.y + Math.sin(player.angle) * 100
+      });
+    }
+  }
+};
+
+// The shared camera can only zoom out so far, so players still in the run are pulled back
+// towards each other before they can leave its widest view. Downed players stay put.
+const tetherPlayers = (state: SimulationState) => {
+  const { camera } = state;
+  if (camera.width <= 0 || camera.height <= 0) return; // Headless runs have no view to keep them in
+  const maxSpan = {
+    x: Math.max(0, camera.width / MIN_CAMERA_ZOOM - CAMERA_MARGIN * 2),
+    y: Math.max(0, camera.height / MIN_CAMERA_ZOOM - CAMERA_MARGIN * 2)
+  };
+  const inRun = state.players.filter(player => player.condition !== 'dead');
+
+  for (let i = 0; i < inRun.length; i++) {
+    for (let j = i + 1; j < inRun.length; j++) {
+      const a = inRun[i];
+      const b = inRun[j];
+      const movers = [a, b].filter(player => player.condition === 'up');
+      (['x', 'y'] as const).forEach(axis => {
+        const gap = b[axis] - a[axis];
+        const excess = Math.abs(gap) - maxSpan[axis];
+        if (excess <= 0 || movers.length === 0) return;
+        const pull = (excess / movers.length) * Math.sign(gap);
+        if (a.condition === 'up') a[axis] += pull;
+        if (b.condition === 'up') b[axis] -= pull;
+      });
+      movers.forEach(player => {
+        resolveObstacles(player, state.obstacles);
+        clampToWorld(state, player);
+      });
+    }
+  }
+};
+
+// Frames every player still in the run, zooming out as they spread apart. Solo runs
+// never leave zoom 1, so they follow the player exactly as before co-op.
+const updateCamera = (state: SimulationState, frames: number) => {
+  const { camera, world } = state;
+  const inRun = state.players.filter(player => player.condition !== 'dead');
+  if (inRun.length === 0) return;
+
+  const minX = Math.min(...inRun.map(player => player.x));
+  const maxX = Math.max(...inRun.map(player => player.x));
+  const minY = Math.min(...inRun.map(player => player.y));
+  const maxY = Math.max(...inRun.map(player => player.y));
+
+  if (inRun.length > 1 && camera.width > 0 && camera.height > 0) {
+    const fit = Math.min(
+      camera.width / (maxX - minX + CAMERA_MARGIN * 2),
+      camera.height / (maxY - minY + CAMERA_MARGIN * 2)
+    );
+    const wanted = Math.max(MIN_CAMERA_ZOOM, Math.min(1, fit));
+    camera.zoom += (wanted - camera.zoom) * (1 - Math.pow(1 - CAMERA_ZOOM_RATE, frames));
+  } else {
+    camera.zoom += (1 - camera.zoom) * (1 - Math.pow(1 - CAMERA_ZOOM_RATE, frames));
+  }
+
+  const viewWidth = camera.width / camera.zoom;
+  const viewHeight = camera.height / camera.zoom;
+  camera.x = Math.max(0, Math.min((minX + maxX) / 2 - viewWidth / 2, world.width - viewWidth));
+  camera.y = Math.max(0, Math.min((minY + maxY) / 2 - viewHeight / 2, world.height - viewHeight));
+};
+
+/**
+ * Downed players bleed out unless a teammate stands over them for REVIVE_TIME; stepping
+ * away resets the revive. A revived player gets back up with REVIVE_HP of their health,
+ * or with 1 HP in modes without healing.
+ */
+const updateDowned = (state: SimulationState, dt: number) => {
+  const now = state.time;
+  const { healing } = getGameMode(state.config.mode);
+  state.players.forEach(player => {
+    if (player.condition !== 'downed') return;
+    if (now - player.downedAt >= BLEED_OUT_TIME) {
+      player.condition = 'dead';
+      player.reviveProgress = 0;
+      return;
+    }
+
+    const reviver = state.players.find(teammate =>
+      teammate.condition === 'up' &&
+      Math.hypot(teammate.x - player.x, teammate.y - player.y) < REVIVE_RADIUS + teammate.radius + player.radius
+    );
+    if (!reviver) {
+      player.reviveProgress = 0;
+      return;
+    }
+
+    player.reviveProgress += dt / REVIVE_TIME;
+    if (player.reviveProgress < 1) return;
+    player.condition = 'up';
+    player.reviveProgress = 0;
+    player.hp = healing ? player.maxHp * REVIVE_HP : 1;
+    player.invulnerableUntil = now + PLAYER_IFRAMES;
+    state.stats.players[state.players.indexOf(reviver)].revives++;
+    createParticles(state, player.x, player.y, '#22c55e', 15);
+  });
+};
+
+/**
+ * Advances the run by one tick. `inputs` holds one input per player (missing ones idle).
+ * `dt` is the simulated time in ms that the tick covers; per-frame tuned values are
+ * scaled by it, so any tick rate plays the same.
+ * Returns the events raised during the tick so adapters can react (HUD banners, game over).
+ */
+export const step = (state: SimulationState, inputs: SimulationInput[], dt: number): SimulationEvent[] => {
+  const events: SimulationEvent[] = [];
+  if (state.isGameOver) return events;
+
+  state.time += dt;
+  const now = state.time;
+  const frames = dt / REFERENCE_FRAME_MS;
+  const { players } = state;
+  const rules = getGameMode(state.config.mode);
+  const inputFor = (i: number) => inputs[i] ?? createIdleInput();
+  syncZombieGrid(state);
+
+  players.forEach(player => {
+    for (let i = player.powerUps.length - 1; i >= 0; i--) {
+      if (now >= player.powerUps[i].expiresAt) player.powerUps.splice(i, 1);
+    }
+  });
+
+  // Any player may pick the team's perk
+  const perkInput = inputs.find(input => input.perk !== null);
+  if (perkInput) choosePerk(state, perkInput.perk!);
+
+  // 1. Player Movement
+  players.forEach((player, i) => {
+    if (player.condition === 'up') updatePlayer(state, player, inputFor(i), frames);
+  });
+  tetherPlayers(state);
+
+  // 2. Camera Update (Frame the players)
+  updateCamera(state, frames);
+
+  // 3. Shooting
+  players.forEach((player, i) => {
+    if (player.condition === 'up') playerAttacks(state, player, inputFor(i));
+  });
+
+  // 4. Waves and spawning, paced by the director
+  const decision = updateDirector(state);
+  if (decision) events.push({ type: 'director', decision });
+  updateWave(state, frames, events);
+
+  // 5. Entities Update
+  const standing = players.filter(player => player.condition === 'up');
+
+  // Acid Pools
+  for (let i = state.acidPools.length - 1; i >= 0; i--) {
+    const pool = state.acidPools[i];
+    if (!pool.permanent && now - pool.creationTime > pool.duration) {
+      state.acidPools.splice(i, 1);
+      continue;
+    }
+    // Standing in acid keeps a player poisoned; the poison outlasts the pool briefly
+    standing.forEach(player => {
+      if (Math.hypot(player.x - pool.x, player.y - pool.y) < pool.radius) applyStatus(player, 'poisoned', now);
+    });
+  }
+
+  // Pickups, to the first player in reach who can use them
+  for (let i = state.pickups.length - 1; i >= 0; i--) {
+    const pickup = state.pickups[i];
+    if (now >= pickup.expiresAt) {
+      state.pickups.splice(i, 1);
+      continue;
+    }
+    const collected = standing.some(player =>
+      Math.hypot(player.x - pickup.x, player.y - pickup.y) < player.radius + pickup.radius + getPickupReach(player) &&
+      collectPickup(state, player, pickup)
+    );
+    if (collected) {
+      createParticles(state, pickup.x, pickup.y, getPickupColor(pickup), 8);
+      state.pickups.splice(i, 1);
+    }
+  }
+  if (rules.reserveMagazines !== undefined) {
+    players.forEach(player => player.inventory.forEach(slot => {
+      slot.reserve = Math.min(slot.reserve, reserveCap(state.config.mode, slot, player));
+    }));
+  }
+
+  // Bullets
+  for (let i = state.bullets.length - 1; i >= 0; i--) {
+    const b = state.bullets[i];
+    b.x += b.dx * frames;
+    b.y += b.dy * frames;
+    b.range -= b.speed * frames;
+    // Cull bullets outside world or past their range
+    if (b.range <= 0 || b.x < 0 || b.x > state.world.width || b.y < 0 || b.y > state.world.height) {
+      state.bullets.splice(i, 1);
+    } else if (hitsAnyObstacle(b, state.obstacles)) {
+      createParticles(state, b.x, b.y, '#94a3b8', 3);
+      state.bullets.splice(i, 1);
+    }
+  }
+
+  // Zombies: straight at the nearest player when nothing is in the way, otherwise follow
+  // the flow field towards whoever is closest by path
+  const field = getFlowField(state);
+  updateFlowField(field, standing);
+  const route = (z: Zombie): Point => {
+    if (z.boss?.attack) return z; // Bosses stand their ground while telegraphing
+    const player = nearestPlayer(state, z);
+    if (!player) return z;
+    if (hasLineOfSight(z, player, state.obstacles, z.radius)) {
+      const { preferredRange } = getArchetype(z.type);
+      if (!preferredRange) return player;
+
+      // Ranged zombies back off when crowded and hold still once in range
+      const dist = Math.hypot(player.x - z.x, player.y - z.y);
+      if (dist < preferredRange * 0.8) return { x: z.x * 2 - player.x, y: z.y * 2 - player.y };
+      if (dist <= preferredRange) return z;
+      return player;
+    }
+    return flowWaypoint(field, z.x, z.y) ?? player;
+  };
+
+  rebuildGrid(zombieGrid, state.zombies);
+  steerZombies(state.zombies, route, zombieGrid, frames);
+  rebuildGrid(zombieGrid, state.zombies);
+  separateZombies(state.zombies, zombieGrid);
+  state.zombies.forEach(z => {
+    resolveObstacles(z, state.obstacles);
+    clampToWorld(state, z);
+  });
+  updateBosses(state, frames, events);
+  rebuildGrid(zombieGrid, state.zombies);
+
+  updateZombieAttacks(state);
+  updateEnemyProjectiles(state, frames, events);
+
+  // Throwables and fire zones (after movement, so blasts and flames hit where zombies are now)
+  updateThrowables(state, events);
+
+  for (let i = state.fireZones.length - 1; i >= 0; i--) {
+    const zone = state.fireZones[i];
+    if (now - zone.creationTime > zone.duration) {
+      state.fireZones.splice(i, 1);
+      continue;
+    }
+    if (now - zone.lastTick >= FIRE_TICK_RATE) {
+      zone.lastTick = now;
+      nearby.length = 0;
+      queryRadius(zombieGrid, zone.x, zone.y, zone.radius, nearby).forEach(z => {
+        applyStatus(z, 'burning', now);
+        z.lastHitBy = zone.owner;
+      });
+    }
+  }
+
+  // Bullet Collision
+  for (let j = state.bullets.length - 1; j >= 0; j--) {
+    const b = state.bullets[j];
+    nearby.length = 0;
+    const z = queryRadius(zombieGrid, b.x, b.y, b.radius, nearby)
+      .find(candidate => candidate.hp > 0 && !b.hits.includes(candidate.id));
+    if (!z) continue;
+
+    damageZombie(z, { amount: b.damage, type: 'projectile', source: 'bullet', owner: b.owner });
+    if (b.onHit && z.hp > 0 && random(state) < b.onHit.chance) applyStatus(z, b.onHit.effect, now);
+    if (b.hits.length === 0) { // Accuracy counts projectiles, not pierced zombies
+      state.stats.shotsHit++;
+      state.stats.players[b.owner].shotsHit++;
+    }
+    b.hits.push(z.id);
+    createParticles(state, b.x, b.y, z.color, 3);
+    if (b.pierce > 0) {
+      b.pierce--;
+    } else {
+      state.bullets.splice(j, 1);
+    }
+  }
+
+  // Status effect damage over time
+  state.zombies.forEach(z => tickStatusEffects(z, now, damage => damageZombie(z, damage)));
+  standing.forEach(player => tickStatusEffects(player, now, damage => damagePlayer(state, player, damage, events)));
+
+  // Deaths (bullets, explosions and effects alike)
+  for (let i = state.zombies.length - 1; i >= 0; i--) {
+    const z = state.zombies[i];
+    if (z.hp > 0) continue;
+    state.zombies.splice(i, 1);
+    killZombie(state, z, events);
+  }
+
+  // Player Collision
+  standing.forEach(player => {
+    nearby.length = 0;
+    queryRadius(zombieGrid, player.x, player.y, player.radius, nearby).forEach(z => {
+      if (z.hp <= 0) return;
+      damagePlayer(state, player, { amount: z.damage, type: 'melee', source: z.type, from: z, knockback: CONTACT_KNOCKBACK }, events);
+    });
+  });
+
+  // The one death check: every source of damage has had its turn this tick. In co-op a
+  // player goes down instead, and the run ends once nobody is left standing.
+  players.forEach((player, i) => {
+    if (player.condition !== 'up' || player.hp > 0) return;
+    if (rules.immortal) {
+      player.hp = 1;
+    } else if (players.length > 1) {
+      player.condition = 'downed';
+      player.downedAt = now;
+      player.hp = 0;
+      player.isReloading = false;
+      player.reloadProgress = 0;
+      player.dx = 0;
+      player.dy = 0;
+      player.effects = [];
+      state.stats.players[i].downs++;
+    } else {
+      player.condition = 'dead';
+    }
+  });
+  updateDowned(state, dt);
+  if (!players.some(player => player.condition === 'up')) {
+    return endRun(state, 'died', events);
+  }
+  if (rules.timeLimit !== undefined && now >= rules.timeLimit) {
+    return endRun(state, 'timeUp', events);
+  }
+  if (state.stats.wave === rules.finalWave && state.wave.phase === 'cleared') {
+    return endRun(state, 'victory', events);
+  }
+
+  for (let i = state.particles.length - 1; i >= 0; i--) {
+    const p = state.particles[i];
+    p.x += p.dx * frames;
+    p.y += p.dy * frames;
+    p.life -= 0.05 * frames;
+    if (p.life <= 0) state.particles.splice(i, 1);
+  }
+
+  return events;
+};
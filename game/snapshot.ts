@@ -0,0 +1,64 @@
+import { Replay, RunSnapshot, SimulationState } from '../types';
+import { PERK_IDS } from './perks';
+import { isReplay, isRunConfig } from './replay';
+
+// Saved runs are the complete simulation state, so a continued run picks up exactly
+// where it stopped: same zombies, timers, boss flags and PRNG position.
+// Bump SNAPSHOT_VERSION when SimulationState changes shape.
+export const SNAPSHOT_VERSION = 15;
+
+// JSON has no Infinity (the state uses it for "never" timestamps and endless pools)
+const NON_FINITE = '$number';
+
+export const createSnapshot = (state: SimulationState, replay: Replay): RunSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  savedAt: new Date().toISOString(),
+  state: structuredClone(state),
+  replay: structuredClone(replay)
+});
+
+export const serializeSnapshot = (snapshot: RunSnapshot) =>
+  JSON.stringify(snapshot, (_key, value) =>
+    typeof value === 'number' && !Number.isFinite(value) ? { [NON_FINITE]: String(value) } : value
+  );
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+
+// Infinity is allowed: it comes back from NON_FINITE
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+const LISTS = ['players', 'bullets', 'zombies', 'particles', 'acidPools', 'pickups', 'throwables', 'fireZones', 'enemyProjectiles', 'obstacles'];
+const OBJECTS = ['wave', 'director', 'modifiers', 'world', 'camera', 'stats'];
+const NUMBERS = ['rngState', 'time', 'lastSpawn', 'lastHorde', 'nextId'];
+
+// A save from an older build or a half-written one must not reach step(), so the
+// top level of the state is checked along with the settings the run was started with
+const isSimulationState = (value: unknown): value is SimulationState => {
+  if (!isObject(value) || !isRunConfig(value.config)) return false;
+  const { players, perkOffer, isGameOver } = value;
+  return LISTS.every(key => Array.isArray(value[key])) &&
+    OBJECTS.every(key => isObject(value[key])) &&
+    NUMBERS.every(key => isNumber(value[key])) &&
+    Array.isArray(players) && players.length === value.config.players &&
+    Array.isArray(perkOffer) && perkOffer.every(perk => PERK_IDS.some(id => id === perk)) &&
+    typeof isGameOver === 'boolean';
+};
+
+export const parseSnapshot = (text: string): RunSnapshot => {
+  const data: unknown = JSON.parse(text, (_key, value) =>
+    value && typeof value === 'object' && typeof value[NON_FINITE] === 'string' ? Number(value[NON_FINITE]) : value
+  );
+  if (!isObject(data) || !isNumber(data.version)) {
+    throw new Error('Not a saved run');
+  }
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported save version ${data.version} (expected ${SNAPSHOT_VERSION})`);
+  }
+  const { savedAt, state, replay } = data;
+  if (typeof savedAt !== 'string' || !isSimulationState(state) || !isReplay(replay) || replay.config.seed !== state.config.seed) {
+    throw new Error('Corrupted saved run');
+  }
+  return { version: SNAPSHOT_VERSION, savedAt, state, replay };
+};
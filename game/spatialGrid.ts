@@ -0,0 +1,104 @@
+import { Point } from '../types';
+
+// Uniform grid over the world. Items are bucketed by their center, and queries widen
+// their search by the largest radius inserted so big entities (tanks, bosses) are never missed.
+
+interface Circle extends Point {
+  radius: number;
+}
+
+export interface SpatialGrid<T extends Circle> {
+  cellSize: number;
+  cols: number;
+  rows: number;
+  cells: T[][];
+  maxRadius: number;
+}
+
+export const createSpatialGrid = <T extends Circle>(width: number, height: number, cellSize: number): SpatialGrid<T> => {
+  const cols = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  return {
+    cellSize,
+    cols,
+    rows,
+    cells: Array.from({ length: cols * rows }, () => []),
+    maxRadius: 0
+  };
+};
+
+const cellCoord = (value: number, cellSize: number, count: number) =>
+  Math.max(0, Math.min(count - 1, Math.floor(value / cellSize)));
+
+export const clearGrid = <T extends Circle>(grid: SpatialGrid<T>) => {
+  for (let i = 0; i < grid.cells.length; i++) grid.cells[i].length = 0;
+  grid.maxRadius = 0;
+};
+
+export const insertIntoGrid = <T extends Circle>(grid: SpatialGrid<T>, item: T) => {
+  const col = cellCoord(item.x, grid.cellSize, grid.cols);
+  const row = cellCoord(item.y, grid.cellSize, grid.rows);
+  grid.cells[row * grid.cols + col].push(item);
+  if (item.radius > grid.maxRadius) grid.maxRadius = item.radius;
+};
+
+export const rebuildGrid = <T extends Circle>(grid: SpatialGrid<T>, items: T[]) => {
+  clearGrid(grid);
+  for (let i = 0; i < items.length; i++) insertIntoGrid(grid, items[i]);
+};
+
+// Items whose circle overlaps the query circle, appended to `out`
+export const queryRadius = <T extends Circle>(grid: SpatialGrid<T>, x: number, y: number, radius: number, out: T[] = []): T[] => {
+  const reach = radius + grid.maxRadius;
+  const minCol = cellCoord(x - reach, grid.cellSize, grid.cols);
+  const maxCol = cellCoord(x + reach, grid.cellSize, grid.cols);
+  const minRow = cellCoord(y - reach, grid.cellSize, grid.rows);
+  const maxRow = cellCoord(y + reach, grid.cellSize, grid.rows);
+
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let col = minCol; col <= maxCol; col++) {
+      const cell = grid.cells[row * grid.cols + col];
+      for (let i = 0; i < cell.length; i++) {
+        const item = cell[i];
+        const dx = item.x - x;
+        const dy = item.y - y;
+        const range = radius + item.radius;
+        if (dx * dx + dy * dy < range * range) out.push(item);
+      }
+    }
+  }
+  return out;
+};
+
+// Closest item center within `maxRange` of the point, measured center to center
+export const findNearestInGrid = <T extends Circle>(
+  grid: SpatialGrid<T>,
+  x: number,
+  y: number,
+  maxRange: number,
+  filter?: (item: T) => boolean
+): T | null => {
+  const minCol = cellCoord(x - maxRange, grid.cellSize, grid.cols);
+  const maxCol = cellCoord(x + maxRange, grid.cellSize, grid.cols);
+  const minRow = cellCoord(y - maxRange, grid.cellSize, grid.rows);
+  const maxRow = cellCoord(y + maxRange, grid.cellSize, grid.rows);
+
+  let nearest: T | null = null;
+  let minDistSq = maxRange * maxRange;
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let col = minCol; col <= maxCol; col++) {
+      const cell = grid.cells[row * grid.cols + col];
+      for (let i = 0; i < cell.length; i++) {
+        const item = cell[i];
+        const dx = item.x - x;
+        const dy = item.y - y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq < minDistSq && (!filter || filter(item))) {
+          minDistSq = distSq;
+          nearest = item;
+        }
+      }
+    }
+  }
+  return nearest;
+};
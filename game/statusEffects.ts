@@ -0,0 +1,121 @@
+import { Damage, Entity, StatusEffectKind, StatusEffectType } from '../types';
+
+// Timed conditions on players and zombies. Hazards, weapons and zombie attacks apply
+// them; the simulation ticks their damage and asks here how they change speed and damage.
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectKind> = {
+  burning: {
+    id: 'burning',
+    name: { es: 'Ardiendo', en: 'Burning' },
+    color: '#f97316',
+    duration: 2000,
+    maxStacks: 1,
+    tickRate: 250,
+    tickDamage: 8,
+    speedMultiplier: 1,
+    damageTakenMultiplier: 1,
+    disables: false
+  },
+  poisoned: {
+    id: 'poisoned',
+    name: { es: 'Envenenado', en: 'Poisoned' },
+    color: '#84cc16',
+    duration: 1500,
+    maxStacks: 1,
+    tickRate: 500,
+    tickDamage: 5,
+    speedMultiplier: 1,
+    damageTakenMultiplier: 1,
+    disables: false
+  },
+  slowed: {
+    id: 'slowed',
+    name: { es: 'Ralentizado', en: 'Slowed' },
+    color: '#38bdf8',
+    duration: 2000,
+    maxStacks: 1,
+    tickRate: Infinity,
+    tickDamage: 0,
+    speedMultiplier: 0.5,
+    damageTakenMultiplier: 1,
+    disables: false
+  },
+  stunned: {
+    id: 'stunned',
+    name: { es: 'Aturdido', en: 'Stunned' },
+    color: '#facc15',
+    duration: 800,
+    maxStacks: 1,
+    tickRate: Infinity,
+    tickDamage: 0,
+    speedMultiplier: 0,
+    damageTakenMultiplier: 1,
+    disables: true
+  },
+  bleeding: {
+    id: 'bleeding',
+    name: { es: 'Sangrando', en: 'Bleeding' },
+    color: '#dc2626',
+    duration: 4000,
+    maxStacks: 3,
+    tickRate: 1000,
+    tickDamage: 4,
+    speedMultiplier: 1,
+    damageTakenMultiplier: 1,
+    disables: false
+  },
+  shielded: {
+    id: 'shielded',
+    name: { es: 'Protegido', en: 'Shielded' },
+    color: '#60a5fa',
+    duration: 5000,
+    maxStacks: 1,
+    tickRate: Infinity,
+    tickDamage: 0,
+    speedMultiplier: 1,
+    damageTakenMultiplier: 0.5,
+    disables: false
+  }
+};
+
+// Reapplying restarts the timer and, for stacking effects, adds a stack
+export const applyStatus = (entity: Entity, type: StatusEffectType, now: number, duration = STATUS_EFFECTS[type].duration) => {
+  const kind = STATUS_EFFECTS[type];
+  if (!entity.effects) entity.effects = [];
+
+  const current = entity.effects.find(e => e.type === type);
+  if (current) {
+    current.stacks = Math.min(kind.maxStacks, current.stacks + 1);
+    current.expiresAt = Math.max(current.expiresAt, now + duration);
+  } else {
+    entity.effects.push({ type, stacks: 1, expiresAt: now + duration, lastTick: now });
+  }
+};
+
+export const hasStatus = (entity: Entity, type: StatusEffectType) =>
+  !!entity.effects?.some(e => e.type === type);
+
+export const isDisabled = (entity: Entity) =>
+  !!entity.effects?.some(e => STATUS_EFFECTS[e.type].disables);
+
+export const statusSpeedMultiplier = (entity: Entity) =>
+  entity.effects?.reduce((multiplier, e) => multiplier * STATUS_EFFECTS[e.type].speedMultiplier, 1) ?? 1;
+
+export const statusDamageTakenMultiplier = (entity: Entity) =>
+  entity.effects?.reduce((multiplier, e) => multiplier * STATUS_EFFECTS[e.type].damageTakenMultiplier, 1) ?? 1;
+
+// Drops expired effects and hands the damage due from the rest at `now` to `deal`
+export const tickStatusEffects = (entity: Entity, now: number, deal: (damage: Damage) => void) => {
+  const { effects } = entity;
+  if (!effects || effects.length === 0) return;
+
+  for (let i = effects.length - 1; i >= 0; i--) {
+    const effect = effects[i];
+    const kind = STATUS_EFFECTS[effect.type];
+    if (now - effect.lastTick >= kind.tickRate) {
+      effect.lastTick = now;
+      if (kind.tickDamage > 0) deal({ amount: kind.tickDamage * effect.stacks, type: 'effect', source: effect.type });
+    }
+    if (now >= effect.expiresAt) effects.splice(i, 1);
+  }
+};
@@ -0,0 +1,106 @@
+import { Point, Zombie } from '../types';
+import { SpatialGrid, queryRadius } from './spatialGrid';
+import { statusSpeedMultiplier } from './statusEffects';
+import {
+  SEPARATION_RANGE, SEPARATION_WEIGHT,
+  AVOIDANCE_LOOKAHEAD, AVOIDANCE_WEIGHT, STEERING_RESPONSE
+} from './constants';
+
+// Crowd steering for zombies. Each zombie blends three desires: seek its route, keep some
+// space from its neighbours, and slip around slower or heavier zombies blocking its path.
+// Overlaps left after moving are resolved by mass, so tanks and bosses shove walkers aside.
+
+const neighbours: Zombie[] = [];
+
+// Bigger bodies are heavier; a boss outweighs a walker 25 to 1
+export const zombieMass = (z: Zombie) => z.radius * z.radius;
+
+// `route` gives the point each zombie should head for next (the player, or a path waypoint)
+export const steerZombies = (zombies: Zombie[], route: (z: Zombie) => Point, grid: SpatialGrid<Zombie>, frames: number) => {
+  const response = Math.min(1, STEERING_RESPONSE * frames);
+
+  zombies.forEach(z => {
+    const target = route(z);
+    const toTargetX = target.x - z.x;
+    const toTargetY = target.y - z.y;
+    const targetDist = Math.hypot(toTargetX, toTargetY) || 1;
+    const seekX = toTargetX / targetDist;
+    const seekY = toTargetY / targetDist;
+
+    let separateX = 0;
+    let separateY = 0;
+    let avoid = 0;
+    const mass = zombieMass(z);
+
+    neighbours.length = 0;
+    queryRadius(grid, z.x, z.y, z.radius * SEPARATION_RANGE + AVOIDANCE_LOOKAHEAD, neighbours);
+
+    neighbours.forEach(n => {
+      if (n === z) return;
+      const dx = z.x - n.x;
+      const dy = z.y - n.y;
+      const dist = Math.hypot(dx, dy);
+      const share = zombieMass(n) / (mass + zombieMass(n)); // Heavier neighbours push harder
+
+      // Separation
+      const personalSpace = (z.radius + n.radius) * SEPARATION_RANGE;
+      if (dist > 0 && dist < personalSpace) {
+        const strength = (personalSpace - dist) / personalSpace;
+        separateX += (dx / dist) * strength * share;
+        separateY += (dy / dist) * strength * share;
+      }
+
+      // Avoidance: only for blockers ahead that we would otherwise queue behind
+      if (n.speed >= z.speed && mass >= zombieMass(n)) return;
+      const ahead = -dx * seekX + -dy * seekY;
+      if (ahead <= 0 || ahead > AVOIDANCE_LOOKAHEAD + z.radius + n.radius || ahead > targetDist) return;
+      const lateral = -dx * -seekY + -dy * seekX;
+      const clearance = z.radius + n.radius;
+      if (Math.abs(lateral) >= clearance) return;
+      // Steer to the side away from the blocker, harder the more centered it is
+      avoid += (lateral > 0 ? -1 : 1) * (1 - Math.abs(lateral) / clearance) * share;
+    });
+
+    let desiredX = seekX + separateX * SEPARATION_WEIGHT + -seekY * avoid * AVOIDANCE_WEIGHT;
+    let desiredY = seekY + separateY * SEPARATION_WEIGHT + seekX * avoid * AVOIDANCE_WEIGHT;
+    const desiredLen = Math.hypot(desiredX, desiredY);
+    if (desiredLen > 1) {
+      desiredX /= desiredLen;
+      desiredY /= desiredLen;
+    }
+
+    // Ease velocity towards the desired heading so crowds flow instead of jittering
+    const speed = z.speed * statusSpeedMultiplier(z);
+    z.dx += (desiredX * speed - z.dx) * response;
+    z.dy += (desiredY * speed - z.dy) * response;
+
+    z.x += z.dx * frames;
+    z.y += z.dy * frames;
+  });
+};
+
+// Pushes overlapping zombies apart. Each zombie takes the share of the overlap that
+// matches the other's mass, so light zombies give way to heavy ones.
+export const separateZombies = (zombies: Zombie[], grid: SpatialGrid<Zombie>) => {
+  zombies.forEach(z => {
+    neighbours.length = 0;
+    queryRadius(grid, z.x, z.y, z.radius, neighbours);
+
+    const mass = zombieMass(z);
+    neighbours.forEach(n => {
+      if (n === z) return;
+      const dx = z.x - n.x;
+      const dy = z.y - n.y;
+      const dist = Math.hypot(dx, dy);
+      const overlap = z.radius + n.radius - dist;
+      if (overlap <= 0) return;
+
+      const share = zombieMass(n) / (mass + zombieMass(n));
+      // Stacked exactly on top of each other: split along a fixed axis
+      const nx = dist > 0 ? dx / dist : (z.id < n.id ? 1 : -1);
+      const ny = dist > 0 ? dy / dist : 0;
+      z.x += nx * overlap * share;
+      z.y += ny * overlap * share;
+    });
+  });
+};
@@ -0,0 +1,97 @@
+import { BossVariantId, WaveComposition, WaveTable } from '../types';
+import { BOSS_WAVE_INTERVAL } from './constants';
+import { isZombieType } from './zombies';
+import { BOSS_VARIANT_IDS } from './bosses';
+import waves from '../waves/waves.json';
+import bossRushWaves from '../waves/bossRush.json';
+
+// Loader for the wave tables: what each wave sends and how long the breaks between waves
+// last. Like maps, the bundled tables are validated at startup.
+// Bump WAVE_TABLE_VERSION when the file layout changes.
+export const WAVE_TABLE_VERSION = 1;
+
+// Typed explicitly so a call to it narrows like a throw does
+const fail: (message: string) => never = message => {
+  throw new Error(`Invalid wave table: ${message}`);
+};
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+
+const isDuration = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isCount = (value: unknown): value is number => isDuration(value) && Number.isInteger(value);
+
+const isBossVariantId = (value: unknown): value is BossVariantId => BOSS_VARIANT_IDS.some(id => id === value);
+
+const parseWave = (data: unknown, i: number): WaveComposition => {
+  const wave = i + 1;
+  if (!isObject(data) || !isObject(data.counts)) fail(`wave ${wave} has no counts`);
+  const { spawnInterval, bossVariant, hordes = 0 } = data;
+
+  const counts: WaveComposition['counts'] = {};
+  Object.entries(data.counts).forEach(([type, count]) => {
+    // Bosses come from the "boss" flag, which also sets them up
+    if (!isZombieType(type) || type === 'boss') fail(`unknown zombie type "${type}" in wave ${wave}`);
+    if (!isCount(count)) fail(`bad count for "${type}" in wave ${wave}`);
+    counts[type] = count;
+  });
+  if (!isDuration(spawnInterval) || spawnInterval === 0) fail(`bad spawn interval in wave ${wave}`);
+  if (!isCount(hordes)) fail(`bad horde count in wave ${wave}`);
+  if (bossVariant !== undefined && !isBossVariantId(bossVariant)) fail(`unknown boss variant "${bossVariant}" in wave ${wave}`);
+
+  return {
+    counts,
+    spawnInterval,
+    hordes,
+    boss: data.boss === true,
+    ...(isBossVariantId(bossVariant) && { bossVariant })
+  };
+};
+
+export const parseWaveTable = (data: unknown): WaveTable => {
+  if (!isObject(data)) fail('not a wave table');
+  const { version, countdown, cleared, intermission, waves, endless } = data;
+  if (version !== WAVE_TABLE_VERSION) fail(`unsupported version ${version} (expected ${WAVE_TABLE_VERSION})`);
+  if (!isDuration(countdown) || !isDuration(cleared) || !isDuration(intermission)) fail('bad phase durations');
+  if (!Array.isArray(waves) || waves.length === 0) fail('needs at least one wave');
+  if (!isObject(endless) || !isDuration(endless.growth) || typeof endless.spawnIntervalStep !== 'number' || !isDuration(endless.minSpawnInterval)) {
+    fail('bad endless settings');
+  }
+
+  return {
+    version,
+    countdown,
+    cleared,
+    intermission,
+    waves: waves.map(parseWave),
+    endless: {
+      growth: endless.growth,
+      spawnIntervalStep: endless.spawnIntervalStep,
+      minSpawnInterval: endless.minSpawnInterval
+    }
+  };
+};
+
+export const WAVE_TABLE = parseWaveTable(waves);
+
+export const BOSS_RUSH_TABLE = parseWaveTable(bossRushWaves);
+
+// Waves past the end of the table grow from its last entry, with a boss every BOSS_WAVE_INTERVAL waves
+export const getWaveComposition = (wave: number, table = WAVE_TABLE): WaveComposition => {
+  if (wave <= table.waves.length) return table.waves[wave - 1];
+
+  const last = table.waves[table.waves.length - 1];
+  const extra = wave - table.waves.length;
+  const counts: WaveComposition['counts'] = {};
+  Object.entries(last.counts).forEach(([type, count]) => {
+    counts[type as keyof typeof counts] = Math.round(count * (1 + table.endless.growth * extra));
+  });
+  return {
+    counts,
+    spawnInterval: Math.max(table.endless.minSpawnInterval, last.spawnInterval + table.endless.spawnIntervalStep * extra),
+    hordes: last.hordes + Math.floor(extra / 5),
+    boss: wave % BOSS_WAVE_INTERVAL === 0
+  };
+};
@@ -0,0 +1,120 @@
+import { AmmoType, Player, Weapon, WeaponId, WeaponSlot } from '../types';
+import { STARTING_RESERVE_AMMO } from './constants';
+
+// Gun archetypes. Speeds are per 60Hz frame like the rest of the tuning values;
+// times are in ms. The rifle keeps the stats of the original single gun.
+
+export const WEAPONS: Record<WeaponId, Weapon> = {
+  pistol: {
+    id: 'pistol',
+    name: { es: 'Pistola', en: 'Pistol' },
+    fireRate: 280,
+    spread: 0.04,
+    pellets: 1,
+    projectileSpeed: 13,
+    range: 700,
+    damage: 30,
+    penetration: 0,
+    magazineSize: 12,
+    reloadTime: 1000,
+    ammoType: 'light',
+    color: '#fde68a'
+  },
+  shotgun: {
+    id: 'shotgun',
+    name: { es: 'Escopeta', en: 'Shotgun' },
+    fireRate: 800,
+    spread: 0.5,
+    pellets: 7,
+    projectileSpeed: 11,
+    range: 380,
+    damage: 14,
+    penetration: 0,
+    magazineSize: 6,
+    reloadTime: 2200,
+    ammoType: 'shells',
+    color: '#fb923c',
+    onHit: { effect: 'bleeding', chance: 0.2 }
+  },
+  smg: {
+    id: 'smg',
+    name: { es: 'Subfusil', en: 'SMG' },
+    fireRate: 80,
+    spread: 0.14,
+    pellets: 1,
+    projectileSpeed: 12,
+    range: 600,
+    damage: 14,
+    penetration: 0,
+    magazineSize: 40,
+    reloadTime: 1400,
+    ammoType: 'light',
+    color: '#fef08a'
+  },
+  rifle: {
+    id: 'rifle',
+    name: { es: 'Rifle', en: 'Rifle' },
+    fireRate: 150,
+    spread: 0,
+    pellets: 1,
+    projectileSpeed: 12,
+    range: 1200,
+    damage: 25,
+    penetration: 0,
+    magazineSize: 30,
+    reloadTime: 1500,
+    ammoType: 'rifle',
+    color: '#facc15'
+  },
+  sniper: {
+    id: 'sniper',
+    name: { es: 'Francotirador', en: 'Sniper' },
+    fireRate: 1100,
+    spread: 0,
+    pellets: 1,
+    projectileSpeed: 24,
+    range: 1600,
+    damage: 120,
+    penetration: 3,
+    magazineSize: 5,
+    reloadTime: 2500,
+    ammoType: 'rifle',
+    color: '#e0f2fe',
+    onHit: { effect: 'stunned', chance: 0.5 }
+  }
+};
+
+export const WEAPON_IDS = Object.keys(WEAPONS) as WeaponId[];
+
+export const STARTING_WEAPON: WeaponId = 'rifle';
+export const SIDEARM: WeaponId = 'pistol';
+
+export const AMMO_TYPES: AmmoType[] = ['light', 'shells', 'rifle'];
+
+// Rounds in a dropped ammo box, [min, max)
+export const AMMO_DROP_AMOUNTS: Record<AmmoType, [number, number]> = {
+  light: [20, 45],
+  shells: [6, 14],
+  rifle: [15, 35]
+};
+
+// Spare magazines that come with a picked-up gun
+export const CRATE_RESERVE_MAGAZINES = 2;
+
+export const getWeapon = (id: WeaponId) => WEAPONS[id];
+
+export const createWeaponSlot = (id: WeaponId, reserve: number): WeaponSlot => ({
+  weapon: id,
+  ammo: WEAPONS[id].magazineSize,
+  reserve
+});
+
+// Main gun plus a pistol to fall back on
+export const createStartingInventory = (): WeaponSlot[] => [
+  createWeaponSlot(STARTING_WEAPON, STARTING_RESERVE_AMMO),
+  createWeaponSlot(SIDEARM, WEAPONS[SIDEARM].magazineSize * 3)
+];
+
+export const getActiveSlot = (player: Player) => player.inventory[player.activeSlot];
+
+export const getActiveWeapon = (player: Player) => WEAPONS[getActiveSlot(player).weapon];
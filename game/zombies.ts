@@ -0,0 +1,304 @@
+import { DropTable, EnemyProjectileType, Point, Zombie } from '../types';
+import { BOSS_ATTACKS } from './bosses';
+
+// Every zombie type is defined here: stats, what it is worth, what it drops, what happens
+// when it dies and how it is drawn. `Zombie['type']` is derived from the keys, so a new
+// entry is all a new type needs; when it shows up is up to the wave table (waves.ts).
+
+// Side effects a death may cause, provided by the simulation
+export interface DeathEffects {
+  explode: (at: Point) => void;
+  acidPool: (at: Point, radius: number, duration: number) => void;
+  particles: (at: Point, color: string, count: number) => void;
+}
+
+// Ranged attack: stand still for `windUp` ms (the telegraph), then fire
+export interface ZombieAttack {
+  projectile: EnemyProjectileType;
+  range: number; // Only fires at the player within this distance and in sight
+  cooldown: number; // ms between shots
+  windUp: number;
+}
+
+export interface ZombieArchetype {
+  radius: number;
+  color: string;
+  hp: number; // At wave 0, before scaling
+  damage: number;
+  speed: number; // px per 60Hz frame
+  speedVariance: number; // Random extra speed per zombie, up to this much
+  scaling: (wave: number) => number; // Multiplier for hp and damage
+  score: number;
+  drops: DropTable;
+  preferredRange?: number; // Keeps about this far from the player while it can see them
+  attack?: ZombieAttack;
+  onDeath: (zombie: Zombie, effects: DeathEffects) => void;
+  draw: (ctx: CanvasRenderingContext2D, zombie: Zombie, now: number) => void; // Centered, facing +x
+}
+
+const waveScaling = (wave: number) => 1 + wave * 0.1;
+
+const SPITTER_WIND_UP = 600;
+
+const bloodSplatter = (zombie: Zombie, effects: DeathEffects) => effects.particles(zombie, '#ef4444', 10);
+
+const drawCircle = (ctx: CanvasRenderingContext2D, radius: number) => {
+  ctx.beginPath();
+  ctx.arc(0, 0, radius, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Warns about the attack a boss is winding up; fills in as it gets closer to going off
+const drawBossTelegraph = (ctx: CanvasRenderingContext2D, z: Zombie, now: number) => {
+  const attack = z.boss?.attack;
+  if (!attack) return;
+  const progress = Math.min(1, (now - z.boss!.attackStart) / BOSS_ATTACKS[attack].windUp);
+  if (progress >= 1 && attack !== 'charge') return;
+
+  ctx.save();
+  ctx.shadowBlur = 0;
+  if (attack === 'charge') {
+    // Lane it will charge down (the boss always faces the player)
+    ctx.fillStyle = `rgba(220, 38, 38, ${0.15 + progress * 0.2})`;
+    ctx.fillRect(0, -z.radius, z.radius + 400 * progress, z.radius * 2);
+  } else if (attack === 'slam') {
+    const { radius } = BOSS_ATTACKS.slam;
+    ctx.strokeStyle = 'rgba(250, 204, 21, 0.8)';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(250, 204, 21, 0.2)';
+    ctx.beginPath();
+    ctx.arc(0, 0, radius * progress, 0, Math.PI * 2);
+    ctx.fill();
+  } else if (attack === 'summon') {
+    ctx.strokeStyle = `rgba(168, 85, 247, ${0.4 + Math.abs(Math.sin(now / 80)) * 0.5})`;
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(0, 0, z.radius + 10 + progress * 20, 0, Math.PI * 2);
+    ctx.stroke();
+  } else if (attack === 'acidSpray') {
+    const { spread } = BOSS_ATTACKS.acidSpray;
+    ctx.fillStyle = `rgba(132, 204, 22, ${0.1 + progress * 0.25})`;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.arc(0, 0, z.radius + 250, -spread / 2, spread / 2);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+export const ZOMBIE_ARCHETYPES = {
+  walker: {
+    radius: 12,
+    color: '#4ade80', // Green
+    hp: 30,
+    damage: 10,
+    speed: 2,
+    speedVariance: 0.5,
+    scaling: waveScaling,
+    score: 10,
+    drops: {
+      chance: 0.3,
+      entries: [
+        { kind: 'ammo', weight: 75 },
+        { kind: 'medkit', weight: 8 },
+        { kind: 'throwable', weight: 8 },
+        { kind: 'weapon', weight: 5 },
+        { kind: 'powerUp', weight: 4 }
+      ]
+    },
+    onDeath: bloodSplatter,
+    draw: (ctx, z) => {
+      ctx.fillRect(-z.radius, -z.radius, z.radius * 2, z.radius * 2);
+    }
+  },
+  runner: {
+    radius: 12,
+    color: '#f87171', // Red
+    hp: 20,
+    damage: 10,
+    speed: 5,
+    speedVariance: 0.5,
+    scaling: waveScaling,
+    score: 20,
+    drops: {
+      chance: 0.3,
+      entries: [
+        { kind: 'ammo', weight: 70 },
+        { kind: 'medkit', weight: 10 },
+        { kind: 'throwable', weight: 8 },
+        { kind: 'powerUp', weight: 12 }
+      ]
+    },
+    onDeath: bloodSplatter,
+    draw: (ctx, z) => {
+      ctx.beginPath();
+      ctx.moveTo(z.radius, 0);
+      ctx.lineTo(-z.radius, z.radius);
+      ctx.lineTo(-z.radius, -z.radius);
+      ctx.fill();
+    }
+  },
+  exploder: {
+    radius: 16,
+    color: '#fb923c', // Orange
+    hp: 40,
+    damage: 10,
+    speed: 3.5,
+    speedVariance: 0.5,
+    scaling: waveScaling,
+    score: 30,
+    drops: {
+      chance: 0.35,
+      entries: [
+        { kind: 'ammo', weight: 60 },
+        { kind: 'throwable', weight: 30 },
+        { kind: 'powerUp', weight: 10 }
+      ]
+    },
+    onDeath: (z, effects) => effects.explode(z),
+    draw: (ctx, z, now) => {
+      drawCircle(ctx, z.radius);
+      ctx.fillStyle = `rgba(255, 255, 255, ${Math.abs(Math.sin(now / 200)) * 0.5})`;
+      drawCircle(ctx, z.radius * 0.6);
+    }
+  },
+  tank: {
+    radius: 22,
+    color: '#a855f7', // Purple
+    hp: 150,
+    damage: 10,
+    speed: 1.5,
+    speedVariance: 0.5,
+    scaling: waveScaling,
+    score: 50,
+    drops: {
+      chance: 0.6,
+      entries: [
+        { kind: 'ammo', weight: 40 },
+        { kind: 'armor', weight: 30 },
+        { kind: 'weapon', weight: 15 },
+        { kind: 'powerUp', weight: 15 }
+      ]
+    },
+    onDeath: bloodSplatter,
+    draw: (ctx, z) => {
+      drawCircle(ctx, z.radius);
+      ctx.strokeStyle = '#000';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  },
+  acid: {
+    radius: 16,
+    color: '#bef264', // Lime
+    hp: 60,
+    damage: 10,
+    speed: 3,
+    speedVariance: 0.5,
+    scaling: waveScaling,
+    score: 40,
+    drops: {
+      chance: 0.35,
+      entries: [
+        { kind: 'ammo', weight: 60 },
+        { kind: 'medkit', weight: 20 },
+        { kind: 'armor', weight: 10 },
+        { kind: 'powerUp', weight: 10 }
+      ]
+    },
+    onDeath: (z, effects) => {
+      effects.acidPool(z, 40, 5000);
+      effects.particles(z, '#bef264', 15);
+    },
+    draw: (ctx, z) => {
+      ctx.beginPath();
+      ctx.moveTo(z.radius, 0);
+      ctx.lineTo(-z.radius / 2, z.radius);
+      ctx.lineTo(-z.radius / 2, -z.radius);
+      ctx.fill();
+      ctx.strokeStyle = '#bef264';
+      ctx.stroke();
+    }
+  },
+  spitter: {
+    radius: 14,
+    color: '#2dd4bf', // Teal
+    hp: 35,
+    damage: 10,
+    speed: 2.5,
+    speedVariance: 0.5,
+    scaling: waveScaling,
+    score: 35,
+    drops: {
+      chance: 0.35,
+      entries: [
+        { kind: 'ammo', weight: 65 },
+        { kind: 'medkit', weight: 15 },
+        { kind: 'throwable', weight: 10 },
+        { kind: 'powerUp', weight: 10 }
+      ]
+    },
+    preferredRange: 320,
+    attack: { projectile: 'acidGlob', range: 450, cooldown: 2500, windUp: SPITTER_WIND_UP },
+    onDeath: (z, effects) => effects.particles(z, '#2dd4bf', 12),
+    draw: (ctx, z, now) => {
+      drawCircle(ctx, z.radius);
+      // Acid sack swells and glows while winding up a shot
+      const charge = z.windUpStart === undefined ? 0 : Math.min(1, (now - z.windUpStart) / SPITTER_WIND_UP);
+      ctx.fillStyle = '#a3e635';
+      ctx.shadowColor = '#a3e635';
+      ctx.shadowBlur = 5 + charge * 15;
+      ctx.beginPath();
+      ctx.arc(z.radius * 0.6, 0, z.radius * (0.35 + charge * 0.4), 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+  // Waves flagged "boss" bring one in; the simulation sets up its variant
+  boss: {
+    radius: 60,
+    color: '#0f0f0f',
+    hp: 800,
+    damage: 50,
+    speed: 2.2, // Faster boss for bigger map
+    speedVariance: 0,
+    scaling: waveScaling,
+    score: 500,
+    drops: {
+      chance: 1,
+      entries: [
+        { kind: 'weapon', weight: 40 },
+        { kind: 'powerUp', weight: 40 },
+        { kind: 'armor', weight: 20 }
+      ]
+    },
+    onDeath: (z, effects) => effects.particles(z, '#6b21a8', 10),
+    draw: (ctx, z, now) => {
+      drawBossTelegraph(ctx, z, now);
+      ctx.fillStyle = z.color;
+      ctx.shadowColor = '#dc2626';
+      ctx.shadowBlur = 20;
+      drawCircle(ctx, z.radius);
+      ctx.strokeStyle = '#dc2626';
+      ctx.lineWidth = 4;
+      ctx.stroke();
+      ctx.fillStyle = 'black';
+      ctx.beginPath();
+      ctx.arc(-15, -15, 8, 0, Math.PI * 2);
+      ctx.arc(15, -15, 8, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+} satisfies Record<string, ZombieArchetype>;
+
+export type ZombieType = keyof typeof ZOMBIE_ARCHETYPES;
+
+export const ZOMBIE_TYPES = Object.keys(ZOMBIE_ARCHETYPES) as ZombieType[];
+
+export const isZombieType = (value: string): value is ZombieType =>
+  Object.prototype.hasOwnProperty.call(ZOMBIE_ARCHETYPES, value);
+
+export const getArchetype = (type: ZombieType): ZombieArchetype => ZOMBIE_ARCHETYPES[type];
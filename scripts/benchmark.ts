@@ -0,0 +1,47 @@
+import { createInitialState, createIdleInput, spawnZombie, step } from '../game/simulation';
+import { randomRange } from '../game/random';
+import { DEFAULT_TICK_RATE } from '../game/constants';
+import { DEFAULT_MAP_ID } from '../game/maps';
+
+// Measures simulation step time with large zombie counts. Run with `npm run bench`.
+
+const WARMUP_TICKS = 60;
+const MEASURED_TICKS = 600;
+const COUNTS = [250, 500, 1000, 2000, 4000];
+
+const benchmark = (count: number) => {
+  const state = createInitialState({ seed: 1337, daily: false, mapId: DEFAULT_MAP_ID, mode: 'endless', difficulty: 'normal', mutators: [], players: 1 }, 1280, 720);
+  state.players[0].hp = Infinity; // Keep the run alive however crowded it gets
+  state.players[0].inventory.forEach(slot => { slot.reserve = Infinity; });
+  state.wave.endsAt = Infinity; // Hold the first wave's countdown: only the zombies placed below
+
+  for (let i = 0; i < count; i++) {
+    spawnZombie(state, 'walker', randomRange(state, 0, state.world.width), randomRange(state, 0, state.world.height));
+  }
+
+  const input = createIdleInput();
+  input.autoFire = true;
+  const inputs = [input];
+  const dt = 1000 / DEFAULT_TICK_RATE;
+
+  for (let i = 0; i < WARMUP_TICKS; i++) step(state, inputs, dt);
+
+  const samples: number[] = [];
+  for (let i = 0; i < MEASURED_TICKS; i++) {
+    const start = performance.now();
+    step(state, inputs, dt);
+    samples.push(performance.now() - start);
+  }
+
+  samples.sort((a, b) => a - b);
+  const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+  const p95 = samples[Math.floor(samples.length * 0.95)];
+  return { count, alive: state.zombies.length, mean, p95 };
+};
+
+console.log(`Step time over ${MEASURED_TICKS} ticks (budget per tick at ${DEFAULT_TICK_RATE}Hz: ${(1000 / DEFAULT_TICK_RATE).toFixed(2)}ms)`);
+console.log('zombies | alive | mean ms | p95 ms');
+COUNTS.forEach(count => {
+  const { alive, mean, p95 } = benchmark(count);
+  console.log(`${String(count).padStart(7)} | ${String(alive).padStart(5)} | ${mean.toFixed(3).padStart(7)} | ${p95.toFixed(3).padStart(6)}`);
+});
@@ -0,0 +1,56 @@
+import { createInitialState, createIdleInput, step } from '../game/simulation';
+import { DEFAULT_TICK_RATE } from '../game/constants';
+import { DEFAULT_MAP_ID } from '../game/maps';
+import { DirectorDecision } from '../types';
+
+// Plays a headless run with a simple bot and prints every difficulty director decision,
+// for tuning. Run with `npm run director [seed]`. The bot never walks over to loot, so it
+// runs dry after a few waves: it is there to make the director react, not to play well.
+
+const MAX_MINUTES = 10;
+const FLEE_RANGE = 200; // The bot backs away from zombies closer than this
+const FIRE_RANGE = 600; // ...and only shoots at ones closer than this
+
+const seed = Number(process.argv[2] ?? 1337);
+const state = createInitialState({ seed, daily: false, mapId: DEFAULT_MAP_ID, mode: 'endless', difficulty: 'normal', mutators: [], players: 1 }, 1280, 720);
+const dt = 1000 / DEFAULT_TICK_RATE;
+
+const f = (value: number) => value.toFixed(2);
+const row = (d: DirectorDecision) => [
+  `${(d.time / 1000).toFixed(0).padStart(4)}s`,
+  String(d.wave).padStart(4),
+  f(d.stress).padStart(6),
+  [d.factors.damage, d.factors.health, d.factors.ammo, d.factors.accuracy, d.factors.killRate].map(f).join(' '),
+  f(d.spawnInterval).padStart(5),
+  d.mix.padEnd(7),
+  f(d.hordeChance).padStart(5),
+  f(d.dropChance).padStart(4)
+].join(' | ');
+
+console.log(`seed ${seed}, map ${DEFAULT_MAP_ID}`);
+console.log('  time | wave | stress | dmg  hp   ammo acc  kill | spawn | mix     | horde | drop');
+
+while (!state.isGameOver && state.time < MAX_MINUTES * 60000) {
+  const [player] = state.players;
+  const input = createIdleInput();
+  input.autoFire = state.zombies.some(z => Math.hypot(z.x - player.x, z.y - player.y) < FIRE_RANGE);
+  input.perk = state.perkOffer.length > 0 ? 0 : null;
+
+  const close = state.zombies.filter(z => Math.hypot(z.x - player.x, z.y - player.y) < FLEE_RANGE);
+  close.forEach(z => {
+    input.move.x += player.x - z.x;
+    input.move.y += player.y - z.y;
+  });
+  const len = Math.hypot(input.move.x, input.move.y);
+  if (len > 0) {
+    input.move.x /= len;
+    input.move.y /= len;
+  }
+
+  step(state, [input], dt).forEach(event => {
+    if (event.type === 'director') console.log(row(event.decision));
+    if (event.type === 'waveCleared') console.log(`-- wave ${event.wave} cleared`);
+  });
+}
+
+console.log(`ended at ${(state.time / 1000).toFixed(0)}s, wave ${state.stats.wave}, ${state.stats.kills} kills${state.isGameOver ? ' (died)' : ''}`);
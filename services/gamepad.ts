@@ -0,0 +1,71 @@
+import { Player, SimulationInput } from "../types";
+
+// Turns standard-mapping gamepads (Xbox layout) into simulation input for one player.
+// Left stick moves and right stick aims. Holding RT fires at the aim, or at the nearest
+// zombie while the right stick is centered. X reloads, LB/RB switch guns and B or LT
+// throws. The buttons that act once per press only fire on the press itself, so the
+// reader remembers what each pad had held on the last read.
+
+const DEAD_ZONE = 0.25;
+const TRIGGER_THRESHOLD = 0.5;
+const AIM_DISTANCE = 250; // World px ahead of the player that the right stick aims at
+
+const BUTTON = { b: 1, x: 2, lb: 4, rb: 5, lt: 6, rt: 7 };
+
+export interface GamepadReader {
+  read: (pad: Gamepad, player: Player) => SimulationInput;
+}
+
+// Pads that are plugged in, in the order the browser numbered them
+export const connectedGamepads = (): Gamepad[] =>
+  typeof navigator === 'undefined' || !navigator.getGamepads
+    ? []
+    : navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+
+// Stick position with the dead zone cut out, length <= 1
+const stick = (pad: Gamepad, xAxis: number, yAxis: number) => {
+  const x = pad.axes[xAxis] ?? 0;
+  const y = pad.axes[yAxis] ?? 0;
+  const len = Math.hypot(x, y);
+  if (len < DEAD_ZONE) return null;
+  const scale = Math.min(1, (len - DEAD_ZONE) / (1 - DEAD_ZONE)) / len;
+  return { x: x * scale, y: y * scale };
+};
+
+const isHeld = (pad: Gamepad, button: number) => {
+  const state = pad.buttons[button];
+  return !!state && (state.pressed || state.value > TRIGGER_THRESHOLD);
+};
+
+export const createGamepadReader = (): GamepadReader => {
+  const held = new Map<number, boolean[]>();
+
+  return {
+    read: (pad, player) => {
+      const before = held.get(pad.index) ?? [];
+      const now = pad.buttons.map((_, i) => isHeld(pad, i));
+      held.set(pad.index, now);
+      const pressed = (button: number) => now[button] && !before[button];
+
+      const aimStick = stick(pad, 2, 3);
+      const aim = aimStick
+        ? { x: player.x + aimStick.x * AIM_DISTANCE, y: player.y + aimStick.y * AIM_DISTANCE }
+        : { x: player.x + Math.cos(player.angle) * AIM_DISTANCE, y: player.y + Math.sin(player.angle) * AIM_DISTANCE };
+      const firing = now[BUTTON.rt];
+
+      const count = player.inventory.length;
+      const cycle = (pressed(BUTTON.rb) ? 1 : 0) - (pressed(BUTTON.lb) ? 1 : 0);
+
+      return {
+        move: stick(pad, 0, 1) ?? { x: 0, y: 0 },
+        aim,
+        fire: firing && aimStick !== null,
+        autoFire: firing && aimStick === null,
+        reload: pressed(BUTTON.x),
+        weaponSlot: cycle === 0 || count < 2 ? null : (player.activeSlot + cycle + count) % count,
+        throw: pressed(BUTTON.b) || pressed(BUTTON.lt) ? (aimStick ? 'aim' : 'auto') : null,
+        perk: null
+      };
+    }
+  };
+};
@@ -0,0 +1,19 @@
+import { Replay } from "../types";
+import { serializeReplay, parseReplay } from "../game/replay";
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const stamp = replay.recordedAt.slice(0, 19).replace(/[:T]/g, '-');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `z-survivor-replay-${stamp}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readReplayFile = async (file: File): Promise<Replay> => {
+  const text = await file.text();
+  return parseReplay(text);
+};
@@ -0,0 +1,122 @@
+import { GameStats, RunConfig, RunMode, RunRecord } from "../types";
+import { getGameMode } from "../game/modes";
+
+const HISTORY_KEY = 'z-survivor-run-history';
+const INITIALS_KEY = 'z-survivor-initials';
+
+const MAX_HISTORY = 200;
+const KEEP_TOP = 10; // Per category, never trimmed away however old
+
+export const DEFAULT_INITIALS = 'AAA';
+
+// Endless runs keep the 'standard' category they had before other modes existed.
+// Sandbox runs are practice and have no category.
+export const runMode = (config: RunConfig): RunMode | null => {
+  if (config.daily) return 'daily';
+  if (!getGameMode(config.mode).ranked) return null;
+  return config.mode === 'endless' ? 'standard' : config.mode as RunMode;
+};
+
+// Runs only compete with runs of the same mode, difficulty and player count. Records from
+// before difficulties or co-op existed count as Normal and solo.
+export const runCategory = (record: RunRecord) =>
+  `${record.mode}/${record.difficulty ?? 'normal'}/${record.players ?? 1}`;
+
+// Up to three letters or digits, upper case
+export const sanitizeInitials = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+
+export const loadRunHistory = (): RunRecord[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error("Could not read run history:", error);
+    return [];
+  }
+};
+
+const saveRunHistory = (history: RunRecord[]) => {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error("Could not save run history:", error);
+  }
+};
+
+// Drops the oldest runs first, but keeps each category's best scores
+const trimHistory = (history: RunRecord[]) => {
+  if (history.length <= MAX_HISTORY) return history;
+
+  const protectedIds = new Set<string>();
+  const categories = new Set(history.map(runCategory));
+  categories.forEach(category => {
+    history
+      .filter(record => runCategory(record) === category)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, KEEP_TOP)
+      .forEach(record => protectedIds.add(record.id));
+  });
+
+  const trimmed = [...history];
+  for (let i = 0; i < trimmed.length && trimmed.length > MAX_HISTORY;) {
+    if (protectedIds.has(trimmed[i].id)) i++;
+    else trimmed.splice(i, 1);
+  }
+  return trimmed;
+};
+
+// Stores a finished run. It is a personal best when it beats every earlier run of its category.
+// Unranked runs are not stored and come back with no record.
+export const recordRun = (stats: GameStats, config: RunConfig, initials: string) => {
+  const history = loadRunHistory();
+  const mode = runMode(config);
+  if (!mode) return { record: null, isPersonalBest: false, history };
+
+  const record: RunRecord = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    initials: sanitizeInitials(initials) || DEFAULT_INITIALS,
+    date: new Date().toISOString(),
+    mode,
+    mapId: config.mapId,
+    difficulty: config.difficulty,
+    mutators: config.mutators,
+    players: config.players,
+    score: stats.score,
+    wave: stats.wave,
+    kills: stats.kills,
+    accuracy: Math.floor((stats.shotsHit / (stats.shotsFired || 1)) * 100),
+    timeSurvived: Math.floor(stats.timeSurvived)
+  };
+
+  const previous = history.filter(r => runCategory(r) === runCategory(record));
+  const isPersonalBest = previous.length > 0 && previous.every(r => record.score > r.score);
+
+  const updated = trimHistory([...history, record]);
+  saveRunHistory(updated);
+  return { record, isPersonalBest, history: updated };
+};
+
+export const updateRunInitials = (id: string, initials: string) => {
+  const history = loadRunHistory().map(record =>
+    record.id === id ? { ...record, initials: sanitizeInitials(initials) || DEFAULT_INITIALS } : record
+  );
+  saveRunHistory(history);
+  return history;
+};
+
+export const loadInitials = () => {
+  try {
+    return sanitizeInitials(localStorage.getItem(INITIALS_KEY) || '') || DEFAULT_INITIALS;
+  } catch {
+    return DEFAULT_INITIALS;
+  }
+};
+
+export const saveInitials = (initials: string) => {
+  try {
+    localStorage.setItem(INITIALS_KEY, sanitizeInitials(initials));
+  } catch {
+    // Initials just won't be remembered
+  }
+};
@@ -0,0 +1,39 @@
+import { RunSnapshot } from "../types";
+import { serializeSnapshot, parseSnapshot } from "../game/snapshot";
+
+const STORAGE_KEY = 'z-survivor-saved-run';
+
+export const saveRun = (snapshot: RunSnapshot) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeSnapshot(snapshot));
+  } catch (error) {
+    // Storage full or disabled (private mode): the run simply can't be continued later
+    console.error("Could not save run:", error);
+  }
+};
+
+export const loadSavedRun = (): RunSnapshot | null => {
+  let text: string | null = null;
+  try {
+    text = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+  if (!text) return null;
+
+  try {
+    return parseSnapshot(text);
+  } catch (error) {
+    console.error("Discarding unreadable saved run:", error);
+    clearSavedRun();
+    return null;
+  }
+};
+
+export const clearSavedRun = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+};
@@ -1,8 +1,12 @@
+import type { ZombieType } from './game/zombies';
+
 export enum GameState {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
-  GAME_OVER = 'GAME_OVER'
+  UPGRADE = 'UPGRADE', // Wave break, picking a perk
+  GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY'
 }
 
 export interface Point {
@@ -23,19 +27,118 @@ export interface Entity extends Point, Velocity {
   maxHp: number;
   damage: number;
   speed: number;
+  effects?: StatusEffect[]; // Players and zombies; projectiles carry none
+}
+
+// --- Status effects ---
+
+export type StatusEffectType = 'burning' | 'poisoned' | 'slowed' | 'stunned' | 'bleeding' | 'shielded';
+
+export interface StatusEffectKind {
+  id: StatusEffectType;
+  name: { es: string; en: string };
+  color: string;
+  duration: number; // ms, restarted whenever the effect is applied again
+  maxStacks: number; // 1 = reapplying only refreshes the timer
+  tickRate: number; // ms between damage ticks
+  tickDamage: number; // Per stack and tick
+  speedMultiplier: number;
+  damageTakenMultiplier: number;
+  disables: boolean; // No shooting, throwing or attacking while it lasts
+}
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  stacks: number;
+  expiresAt: number;
+  lastTick: number;
+}
+
+// Chance of a status effect on each hit
+export interface OnHitEffect {
+  effect: StatusEffectType;
+  chance: number;
 }
 
+// --- Damage ---
+
+// Hits grant the player invulnerability frames and can knock back; 'effect' damage
+// (status ticks) does neither and goes straight past armor
+export type DamageType = 'melee' | 'projectile' | 'explosion' | 'effect';
+
+export interface Damage {
+  amount: number;
+  type: DamageType;
+  source: string; // What dealt it: a zombie or projectile type, a boss attack, a status effect, 'explosion'
+  from?: Point; // Where it came from; knockback pushes away from here
+  knockback?: number; // Initial push speed, px per 60Hz frame
+  owner?: number; // Player (index into SimulationState.players) who dealt it, for the kill credit
+}
+
+// up → downed (a teammate can revive them) → dead. Solo runs end instead of going down.
+export type PlayerCondition = 'up' | 'downed' | 'dead';
+
 export interface Player extends Entity {
   angle: number;
-  ammo: number;
-  maxAmmo: number; // Clip size
-  totalAmmo: number; // Reserve ammo
+  inventory: WeaponSlot[]; // Carried weapons, one per hotkey
+  activeSlot: number; // Index into `inventory`; `damage` mirrors that weapon's projectile damage
+  throwable: ThrowableType; // What the throwable slot holds
+  throwables: number; // How many of them
+  armor: number; // Takes ARMOR_ABSORPTION of each hit while it lasts
+  maxArmor: number;
+  invulnerableUntil: number; // Hit i-frames; dx/dy hold the knockback still being applied
+  powerUps: ActivePowerUp[];
+  perks: PerkId[]; // In the order they were picked; repeats stack
   isReloading: boolean;
   reloadProgress: number;
+  reloadStartTime: number;
+  lastShot: number;
+  lastThrow: number;
+  condition: PlayerCondition;
+  downedAt: number; // When they last went down; they bleed out BLEED_OUT_TIME later
+  reviveProgress: number; // 0-1 while a teammate stands over them
 }
 
 export interface Zombie extends Entity {
-  type: 'walker' | 'runner' | 'tank' | 'boss' | 'exploder' | 'acid';
+  type: ZombieType; // Key into ZOMBIE_ARCHETYPES
+  lastHitBy?: number; // Player credited with the kill
+  lastAttack?: number; // Ranged attackers only
+  windUpStart?: number; // Set while telegraphing the next shot
+  boss?: BossState; // Bosses only
+}
+
+// --- Bosses ---
+
+export type BossVariantId = 'brute' | 'broodmother' | 'abomination';
+export type BossAttackId = 'charge' | 'slam' | 'summon' | 'acidSpray';
+
+export interface BossPhase {
+  threshold: number; // Starts once health drops to this fraction of max
+  attacks: BossAttackId[]; // Picked from at random
+  cooldown: number; // ms between attacks
+  speedMultiplier: number;
+}
+
+export interface BossVariant {
+  id: BossVariantId;
+  name: { es: string; en: string };
+  color: string;
+  hpMultiplier: number; // On top of the boss archetype's scaled health
+  phases: BossPhase[]; // The first one applies from full health
+}
+
+export interface BossState {
+  variant: BossVariantId;
+  phase: number; // Index into the variant's phases
+  attack: BossAttackId | null; // Being telegraphed or carried out
+  attackStart: number;
+  lastAttack: number;
+  charge: Point | null; // Heading while charging
+}
+
+export interface Obstacle extends Rect {
+  id: string;
+  kind: 'wall' | 'building' | 'car';
 }
 
 export interface AcidPool extends Point {
@@ -43,16 +146,142 @@ export interface AcidPool extends Point {
   radius: number;
   creationTime: number;
   duration: number; // ms
+  permanent?: boolean; // Map hazards never dry up
 }
 
-export interface AmmoDrop extends Point {
+export interface Bullet extends Entity {
+  createdAt: number;
+  range: number; // Distance left before the projectile fades out
+  pierce: number; // Further zombies it can pass through
+  hits: string[]; // Zombies already struck, so a piercing shot hits each only once
+  onHit?: OnHitEffect;
+  owner: number; // Index of the player who fired it
+}
+
+// --- Weapons ---
+
+export type WeaponId = 'pistol' | 'shotgun' | 'smg' | 'rifle' | 'sniper';
+export type AmmoType = 'light' | 'shells' | 'rifle';
+
+export interface Weapon {
+  id: WeaponId;
+  name: { es: string; en: string };
+  fireRate: number; // ms between shots
+  spread: number; // Full cone width in radians
+  pellets: number; // Projectiles per shot
+  projectileSpeed: number; // px per 60Hz frame
+  range: number; // px a projectile travels before fading out
+  damage: number; // Per projectile
+  penetration: number; // Extra zombies a projectile passes through
+  magazineSize: number;
+  reloadTime: number; // ms
+  ammoType: AmmoType;
+  color: string; // Projectile color
+  onHit?: OnHitEffect;
+}
+
+export interface WeaponSlot {
+  weapon: WeaponId;
+  ammo: number; // Rounds in the magazine
+  reserve: number; // Spare rounds for this weapon
+}
+
+// --- Throwables ---
+
+export type ThrowableType = 'grenade' | 'molotov';
+
+// A grenade or molotov in the air (or, for grenades, waiting out the fuse on the ground)
+export interface Throwable extends Point {
+  id: string;
+  type: ThrowableType;
+  origin: Point;
+  target: Point;
+  thrownAt: number;
+  flightTime: number; // ms from the throw until it lands
+  height: number; // Above the ground, for drawing the arc
+  landed: boolean;
+  owner: number;
+}
+
+// Burning ground left by a molotov. Works like an AcidPool, but hurts zombies.
+export interface FireZone extends Point {
   id: string;
-  amount: number;
   radius: number;
+  creationTime: number;
+  duration: number; // ms
+  lastTick: number;
+  owner: number;
 }
 
-export interface Bullet extends Entity {
+// --- Enemy projectiles ---
+
+export type EnemyProjectileType = 'acidGlob' | 'spit';
+
+export interface EnemyProjectileKind {
+  id: EnemyProjectileType;
+  radius: number;
+  speed: number; // px per 60Hz frame
+  damage: number;
+  range: number; // Straight shots fade out after this far; lobbed ones never fly further
+  color: string;
+  lobbed: boolean; // Arcs over to where the player stood and only hits on landing
+  splash: { radius: number; duration: number } | null; // Acid left where it lands
+  effect?: StatusEffectType; // Applied to the player on a hit
+}
+
+// Fired by zombies at the player. Kept apart from the player's bullets: they hit the
+// player instead of zombies, and lobbed ones travel in an arc.
+export interface EnemyProjectile extends Point, Velocity {
+  id: string;
+  type: EnemyProjectileType;
+  radius: number;
+  origin: Point;
+  target: Point;
   createdAt: number;
+  flightTime: number; // ms until a lobbed one lands
+  height: number; // Above the ground, for drawing the arc
+  range: number; // Distance left for straight ones
+}
+
+// --- Pickups ---
+
+export type PowerUpType = 'rapidFire' | 'doubleDamage' | 'infiniteAmmo' | 'speedBoost' | 'invulnerability';
+
+export interface PowerUp {
+  id: PowerUpType;
+  name: { es: string; en: string };
+  duration: number; // ms
+  color: string;
+}
+
+export interface ActivePowerUp {
+  type: PowerUpType;
+  expiresAt: number; // Simulated ms
+  duration: number;
+}
+
+interface PickupBase extends Point {
+  id: string;
+  radius: number;
+  expiresAt: number; // Simulated ms it despawns at; Infinity for the ones placed by the map
+}
+
+// Anything the player collects by walking over it
+export type Pickup = PickupBase & (
+  | { kind: 'ammo'; ammoType: AmmoType; amount: number }
+  | { kind: 'medkit'; amount: number }
+  | { kind: 'armor'; amount: number }
+  | { kind: 'weapon'; weapon: WeaponId }
+  | { kind: 'throwable'; type: ThrowableType; count: number }
+  | { kind: 'powerUp'; powerUp: PowerUpType }
+);
+
+export type PickupKind = Pickup['kind'];
+
+// What a zombie may leave behind: `chance` of dropping anything, then a weighted pick
+export interface DropTable {
+  chance: number;
+  entries: { kind: PickupKind; weight: number }[];
 }
 
 export interface Particle extends Point, Velocity {
@@ -71,4 +300,315 @@ export interface GameStats {
   accuracy: number;
   shotsFired: number;
   shotsHit: number;
-}
\ No newline at end of file
+  players: PlayerStats[]; // Each player's share; the totals above cover the whole team
+}
+
+export interface PlayerStats {
+  score: number;
+  kills: number;
+  shotsFired: number;
+  shotsHit: number;
+  damageTaken: number;
+  downs: number;
+  revives: number; // Teammates they brought back
+}
+
+// --- Perks ---
+
+export type PerkId = 'maxHp' | 'moveSpeed' | 'reloadSpeed' | 'magazineSize' | 'damage' | 'pickupRadius' | 'armor';
+
+// Permanent upgrade offered between waves
+export interface Perk {
+  id: PerkId;
+  name: { es: string; en: string };
+  description: { es: string; en: string };
+  amount: number; // Bonus per stack, in the unit the perk works with
+  maxStacks: number;
+}
+
+// --- Difficulty ---
+
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'nightmare';
+
+export type MutatorId = 'glassCannon' | 'noAmmoDrops' | 'explosiveDeaths' | 'fastRunners' | 'permanentHorde';
+
+// What a run's difficulty and mutators add up to; multipliers are 1 on Normal
+export interface RunModifiers {
+  playerHp: number; // Multiplier for starting and max health
+  startingAmmo: number; // Multiplier for the starting reserve ammo
+  damageDealt: number;
+  damageTaken: number;
+  zombieHp: number;
+  runnerSpeed: number;
+  spawnInterval: number;
+  dropChance: number;
+  ammoDrops: boolean; // Zombies may drop ammo
+  explosiveDeaths: boolean; // Every zombie explodes when it dies
+  permanentHorde: boolean; // Hordes come as often as the cooldown allows, with no per-wave limit
+  scoreMultiplier: number;
+}
+
+// A difficulty preset or mutator. Numbers multiply into the run's modifiers, flags replace them.
+export interface RunModifierSource<Id extends string> {
+  id: Id;
+  name: { es: string; en: string };
+  description: { es: string; en: string };
+  modifiers: Partial<RunModifiers>;
+}
+
+export type DifficultyPreset = RunModifierSource<DifficultyId>;
+
+export type Mutator = RunModifierSource<MutatorId>;
+
+// --- Game modes ---
+
+export type GameMode = 'endless' | 'timed' | 'bossRush' | 'hardcore' | 'sandbox';
+
+// How a run ended: the player died, the clock ran out, or the last wave was beaten
+export type RunOutcome = 'died' | 'timeUp' | 'victory';
+
+export interface GameModeRules {
+  id: GameMode;
+  name: { es: string; en: string };
+  description: { es: string; en: string };
+  waves: WaveTable;
+  timeLimit?: number; // ms; the run ends when it runs out
+  finalWave?: number; // The run is won once this wave is cleared
+  drops: boolean; // Zombies drop loot
+  healing: boolean; // Medkits, armor plates, Vitality and revives restore health
+  reserveMagazines?: number; // Spare ammo per gun is capped at this many magazines
+  immortal: boolean; // Health never drops below 1
+  infiniteAmmo: boolean; // Reloading never uses up the reserve
+  ranked: boolean; // Has its own leaderboard category
+}
+
+// --- Waves ---
+
+// countdown → active → cleared → intermission → countdown for the next wave
+export type WavePhase = 'countdown' | 'active' | 'cleared' | 'intermission';
+
+export interface WaveComposition {
+  counts: Partial<Record<ZombieType, number>>; // How many of each type the wave sends
+  spawnInterval: number; // ms between regular spawns
+  hordes: number; // Times part of the wave rushes in all at once
+  boss: boolean;
+  bossVariant?: BossVariantId; // Picked by wave number when not set
+}
+
+// Versioned wave table, loaded from /waves/waves.json
+export interface WaveTable {
+  version: number;
+  countdown: number; // ms before each wave starts
+  cleared: number; // ms the "cleared" banner stays up
+  intermission: number; // ms of quiet between waves
+  waves: WaveComposition[]; // Wave 1 first
+  endless: {
+    growth: number; // Past the table, counts grow by this share of the last wave per extra wave
+    spawnIntervalStep: number; // ms added to the spawn interval per extra wave (negative: faster)
+    minSpawnInterval: number;
+  };
+}
+
+export interface WaveState {
+  phase: WavePhase;
+  endsAt: number; // When the phase is over; Infinity while the wave is active
+  boss: boolean; // The current (or upcoming) wave brings a boss
+  queue: ZombieType[]; // Yet to spawn, in spawn order
+  total: number; // Everything the wave sends, summoned minions included
+  spawnInterval: number;
+  hordesLeft: number;
+}
+
+// --- Director ---
+
+// Which of the next few queued zombies spawns first: the weakest, the queue's own order, or the toughest
+export type SpawnMix = 'light' | 'neutral' | 'heavy';
+
+// Each factor is 0 (relaxed) to 1 (struggling) before weighting
+export interface StressFactors {
+  damage: number; // Recent damage taken
+  health: number; // Health and armor missing
+  ammo: number; // Active gun running dry
+  accuracy: number; // Recent shots missing
+  killRate: number; // Zombies piling up faster than they die
+}
+
+// What the director settled on at one update, kept until the next. Multipliers of 1
+// and a neutral mix play the wave table as written.
+export interface DirectorDecision {
+  time: number;
+  wave: number;
+  stress: number; // 0 to 1, smoothed over updates
+  factors: StressFactors;
+  spawnInterval: number;
+  mix: SpawnMix;
+  hordeChance: number;
+  dropChance: number;
+}
+
+export interface DirectorState {
+  decision: DirectorDecision;
+  nextUpdate: number;
+  recentDamage: number; // Decaying tallies, see DIRECTOR_MEMORY
+  recentKills: number;
+  recentShots: number;
+  recentHits: number;
+  seen: { kills: number; shotsFired: number; shotsHit: number }; // Stats at the last update
+}
+
+// --- Maps ---
+
+export type FloorTheme = 'asphalt' | 'concrete' | 'grass' | 'sand';
+
+export interface Rect extends Point {
+  width: number; // x/y is the top-left corner
+  height: number;
+}
+
+export interface AmmoCache extends Point {
+  ammoType: AmmoType;
+  amount: number;
+}
+
+export interface WeaponCache extends Point {
+  weapon: WeaponId;
+}
+
+export interface MapHazard extends Point {
+  kind: 'acid';
+  radius: number;
+}
+
+// Versioned map definition, loaded from the JSON files in /maps
+export interface GameMap {
+  version: number;
+  id: string;
+  name: { es: string; en: string };
+  width: number;
+  height: number;
+  theme: FloorTheme;
+  playerStart: Point;
+  spawnZones: Rect[]; // Empty: zombies spawn just outside the camera view
+  obstacles: Obstacle[];
+  ammoCaches: AmmoCache[];
+  weaponCrates: WeaponCache[];
+  hazards: MapHazard[];
+}
+
+export interface World {
+  width: number;
+  height: number;
+  theme: FloorTheme;
+  spawnZones: Rect[];
+}
+
+// Everything needed to reproduce a run's randomness
+export interface RunConfig {
+  seed: number;
+  daily: boolean; // Daily Challenge: seed derived from the date
+  mapId: string;
+  mode: GameMode;
+  difficulty: DifficultyId;
+  mutators: MutatorId[];
+  players: number; // 2 for local co-op
+}
+
+export interface Camera extends Point {
+  width: number; // View size in screen px
+  height: number;
+  zoom: number; // Screen px per world px; drops below 1 as co-op players spread apart
+}
+
+// Per-tick input for one player, consumed by the simulation. Produced by keyboard, mouse,
+// touch and gamepad adapters.
+export interface SimulationInput {
+  move: Point; // Movement vector, length <= 1
+  aim: Point; // Aim target in world space
+  fire: boolean; // Manual shot towards `aim`
+  autoFire: boolean; // Held fire button, auto-aims at the nearest zombie
+  reload: boolean;
+  weaponSlot: number | null; // Inventory slot to switch to, null to keep the current one
+  throw: 'aim' | 'auto' | null; // Throw towards `aim`, or at the nearest zombie
+  perk: number | null; // Index into the pending perk offer to take
+}
+
+export type SimulationEvent =
+  | { type: 'wave'; wave: number; boss: boolean } // A wave has started
+  | { type: 'waveCleared'; wave: number }
+  | { type: 'director'; decision: DirectorDecision }
+  | { type: 'horde'; wave: number }
+  | { type: 'perkOffer'; wave: number; options: PerkId[] }
+  | { type: 'damage'; player: number; amount: number; damageType: DamageType; source: string } // Dealt to a player
+  | { type: 'gameOver'; stats: GameStats; outcome: RunOutcome };
+
+export interface SimulationState {
+  players: Player[]; // One per local player, in join order
+  bullets: Bullet[];
+  zombies: Zombie[];
+  particles: Particle[];
+  acidPools: AcidPool[];
+  pickups: Pickup[];
+  throwables: Throwable[];
+  fireZones: FireZone[];
+  enemyProjectiles: EnemyProjectile[];
+  perkOffer: PerkId[]; // Perks to choose from after the last wave, empty once one is taken
+  wave: WaveState; // The wave number itself is in stats
+  director: DirectorState;
+  modifiers: RunModifiers; // Worked out from config.difficulty and config.mutators
+  obstacles: Obstacle[];
+  world: World;
+  camera: Camera;
+  stats: GameStats;
+  config: RunConfig;
+  rngState: number;
+  time: number; // Simulated ms since the run started
+  lastSpawn: number;
+  lastHorde: number;
+  isGameOver: boolean;
+  nextId: number;
+}
+
+// [ticks, then per player: moveX * 1000, moveY * 1000, aimX, aimY, flags]. Consecutive
+// identical inputs share one run.
+export type ReplayInputRun = [number, ...number[]];
+
+export interface Replay {
+  version: number;
+  config: RunConfig;
+  tickRate: number;
+  recordedAt: string; // ISO timestamp
+  views: [number, number, number][]; // [tick, width, height] camera size changes
+  inputs: ReplayInputRun[];
+  stats: GameStats | null; // Final stats, null while still recording
+}
+
+// An unfinished run, saved so it can be continued later. The replay recorded so far
+// travels with it so the finished run still gets a complete replay.
+export interface RunSnapshot {
+  version: number;
+  savedAt: string; // ISO timestamp
+  state: SimulationState;
+  replay: Replay;
+}
+
+// --- Records ---
+
+// Leaderboard category a run is ranked in
+export type RunMode = 'standard' | 'daily' | 'timed' | 'bossRush' | 'hardcore';
+
+// A finished run as kept in the local leaderboard and run history
+export interface RunRecord {
+  id: string;
+  initials: string;
+  date: string; // ISO timestamp
+  mode: RunMode;
+  mapId: string;
+  difficulty?: DifficultyId; // Missing on runs recorded before difficulties existed
+  mutators?: MutatorId[];
+  players?: number; // Missing on solo runs recorded before co-op existed
+  score: number;
+  wave: number;
+  kills: number;
+  accuracy: number; // 0-100
+  timeSurvived: number; // seconds
+}